@@ -0,0 +1,98 @@
+// ズームモーダルのアクセシビリティ補助（代替テキスト生成・フォーカストラップ）
+import { inferDiagramType } from "./utils";
+import { DiagramGraph, parseDiagramGraph, stripDirectives } from "./diagramGraph";
+
+export type DiagramDescription = { summary: string; items: string[] };
+
+const MAX_ITEMS = 200;
+
+const DIAGRAM_LABELS: Record<string, string> = {
+  graph: "フローチャート",
+  sequenceDiagram: "シーケンス図",
+  classDiagram: "クラス図",
+  erDiagram: "ER図",
+  stateDiagram: "状態遷移図",
+  gantt: "ガントチャート",
+  journey: "ユーザージャーニー",
+  pie: "円グラフ",
+  mindmap: "マインドマップ",
+  timeline: "タイムライン",
+};
+
+function describeFlowchart(graph: DiagramGraph): DiagramDescription {
+  const name = (id: string) => graph.nodes.get(id) ?? id;
+  const nodes = [...graph.nodes.values()];
+  const edges = graph.edges.map(e => `${name(e.from)} → ${name(e.to)}${e.label ? `（${e.label}）` : ""}`);
+  return {
+    summary: `フローチャート: ノード${nodes.length}個、接続${edges.length}本。`,
+    items: [...nodes.map(n => `ノード: ${n}`), ...edges.map(e => `接続: ${e}`)],
+  };
+}
+
+function describeSequence(graph: DiagramGraph): DiagramDescription {
+  const name = (id: string) => graph.nodes.get(id) ?? id;
+  // 表示名が同じ参加者はまとめる
+  const participants = [...new Set(graph.nodes.values())];
+  const messages = graph.edges.map(e => `${name(e.from)} → ${name(e.to)}: ${e.label}`);
+  return {
+    summary: `シーケンス図: 参加者${participants.length}人、メッセージ${messages.length}件。`,
+    items: [...participants.map(p => `参加者: ${p}`), ...messages.map(m => `メッセージ: ${m}`)],
+  };
+}
+
+/** Mermaid ソースからスクリーンリーダー向けの説明を生成する */
+export function describeMermaidSource(code: string): DiagramDescription {
+  const lines = stripDirectives(code);
+  const type = inferDiagramType(lines.join("\n"));
+  const graph = parseDiagramGraph(code);
+  let desc: DiagramDescription;
+  if (graph?.type === "graph") desc = describeFlowchart(graph);
+  else if (graph?.type === "sequenceDiagram") desc = describeSequence(graph);
+  else desc = {
+    summary: `${(type && DIAGRAM_LABELS[type]) ?? "Mermaid図"}（${lines.length}行）。以下はソースの各行です。`,
+    items: lines.slice(1),
+  };
+  if (desc.items.length > MAX_ITEMS) {
+    const rest = desc.items.length - MAX_ITEMS;
+    desc.items = [...desc.items.slice(0, MAX_ITEMS), `ほか${rest}件`];
+  }
+  return desc;
+}
+
+/** ソースが取れない場合は描画済み SVG のノードラベルから説明を作る */
+export function describeRenderedSvg(svg: SVGSVGElement | null): DiagramDescription {
+  const labels = svg
+    ? Array.from(svg.querySelectorAll(".node, .actor, .messageText"))
+      .map(el => el.textContent?.trim() ?? "")
+      .filter(Boolean)
+    : [];
+  return {
+    summary: `Mermaid図。表示されているラベル${labels.length}件。`,
+    items: labels.slice(0, MAX_ITEMS),
+  };
+}
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Tab / Shift+Tab のフォーカスを container 内で循環させる。処理した場合は true */
+export function trapFocus(container: HTMLElement, e: KeyboardEvent): boolean {
+  if (e.key !== "Tab") return false;
+  const focusables = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter(el => el.offsetParent !== null || el === document.activeElement);
+  if (focusables.length === 0) { e.preventDefault(); return true; }
+  const first = focusables[0];
+  const last = focusables[focusables.length - 1];
+  const active = document.activeElement as HTMLElement | null;
+  const inside = !!active && container.contains(active);
+  if (e.shiftKey && (!inside || active === first)) {
+    e.preventDefault();
+    last.focus();
+    return true;
+  }
+  if (!e.shiftKey && (!inside || active === last)) {
+    e.preventDefault();
+    first.focus();
+    return true;
+  }
+  return false;
+}
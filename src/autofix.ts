@@ -0,0 +1,225 @@
+// ルールベースの Mermaid 自動修正（API 不要・決定的）
+import { inferDiagramType } from "./utils";
+
+export type AutoFixContext = { diagram: string | null };
+
+export type AutoFixRule = {
+  id: string;
+  title: string;
+  /** 対象の図種（未指定ならすべて） */
+  diagrams?: string[];
+  apply: (code: string, ctx: AutoFixContext) => { code: string; count: number };
+};
+
+export type AutoFixResult = {
+  code: string;
+  fired: { id: string; title: string; count: number }[];
+};
+
+const FULL_WIDTH_MAP: Record<string, string> = {
+  "（": "(", "）": ")", "［": "[", "］": "]", "｛": "{", "｝": "}",
+  "：": ":", "；": ";", "＞": ">", "＜": "<", "｜": "|", "＝": "=",
+  "－": "-", "―": "-", "−": "-", "→": "-->", "　": " ",
+};
+
+const OPENERS: Record<string, string> = { "[": "]", "(": ")", "{": "}" };
+
+/** 行ごとに置換し、変更行数を数える */
+function mapLines(code: string, fn: (line: string) => string): { code: string; count: number } {
+  let count = 0;
+  const out = code.split("\n").map((line) => {
+    const next = fn(line);
+    if (next !== line) count++;
+    return next;
+  });
+  return { code: out.join("\n"), count };
+}
+
+/** コメント・ディレクティブ行（%%）は触らない */
+function isCommentLine(line: string): boolean {
+  return line.trim().startsWith("%%");
+}
+
+/** 行を「構文部分」と「ラベル部分（引用符・括弧・|エッジラベル|）」に分ける */
+function splitLabels(line: string): { text: string; label: boolean }[] {
+  const parts: { text: string; label: boolean }[] = [];
+  let buf = "";
+  let depth = 0;
+  let inQuote = false;
+  let inPipe = false;
+  const flush = (label: boolean) => { if (buf) parts.push({ text: buf, label }); buf = ""; };
+  for (const ch of line) {
+    const inLabel = depth > 0 || inQuote || inPipe;
+    if (!inLabel && (ch === '"' || ch === "|" || ch in OPENERS || FULL_WIDTH_MAP[ch] in OPENERS)) {
+      flush(false);
+      buf = ch;
+      if (ch === '"') inQuote = true;
+      else if (ch === "|") inPipe = true;
+      else depth = 1;
+      continue;
+    }
+    buf += ch;
+    if (!inLabel) continue;
+    if (inQuote && ch === '"') { inQuote = false; if (depth === 0) flush(true); continue; }
+    if (inPipe && ch === "|") { inPipe = false; flush(true); continue; }
+    if (inQuote || inPipe) continue;
+    const c = FULL_WIDTH_MAP[ch] ?? ch;
+    if (c in OPENERS) depth++;
+    else if (c === "]" || c === ")" || c === "}") { depth--; if (depth === 0) flush(true); }
+  }
+  flush(depth > 0 || inQuote || inPipe);
+  return parts;
+}
+
+/** 構文部分（ラベル外）にだけ fn を適用する */
+function mapOutsideLabels(line: string, fn: (segment: string) => string): string {
+  return splitLabels(line).map(p => p.label ? p.text : fn(p.text)).join("");
+}
+
+/** sequenceDiagram のメッセージ行は最初の「:」以降が本文 */
+function splitMessage(line: string): [string, string] {
+  const i = line.search(/[:：]/);
+  return i < 0 ? [line, ""] : [line.slice(0, i + 1), line.slice(i + 1)];
+}
+
+export const AUTO_FIX_RULES: AutoFixRule[] = [
+  {
+    id: "full-width-punctuation",
+    title: "全角記号を半角に変換",
+    // mindmap や timeline では「（）」などが本文のまま図形記号として読まれてしまうので対象外
+    diagrams: ["graph", "sequenceDiagram"],
+    apply: (code, ctx) => mapLines(code, (line) => {
+      if (isCommentLine(line)) return line;
+      const convertWith = (pattern: RegExp) => (seg: string) => seg.replace(pattern, (ch) => FULL_WIDTH_MAP[ch] ?? ch);
+      if (ctx.diagram === "sequenceDiagram") {
+        // 矢印とメッセージ区切りの「：」だけを直す（participant の別名などの括弧は本文）
+        const [head, body] = splitMessage(line);
+        return convertWith(/[：＞＜－―−→]/g)(head) + body;
+      }
+      // flowchart の「：」はラベル外でも構文にならないので残す（「:」にすると矢印と衝突する）
+      const convert = convertWith(/[（）［］｛｝；＞＜｜＝－―−→\u3000]/g);
+      // ラベル外の全角括弧はシェイプ記号として使われているので、開き括弧から変換してラベルごと直す
+      return splitLabels(line).map(p => {
+        if (!p.label) return convert(p.text);
+        const open = p.text[0];
+        if (!(FULL_WIDTH_MAP[open] in OPENERS)) return p.text;
+        const close = p.text[p.text.length - 1];
+        return FULL_WIDTH_MAP[open] + p.text.slice(1, -1) + (FULL_WIDTH_MAP[close] ?? close);
+      }).join("");
+    }),
+  },
+  {
+    id: "html-line-breaks",
+    title: "ラベル内の <br> を \\n に変換",
+    apply: (code) => mapLines(code, (line) => {
+      if (isCommentLine(line) || !/<br\s*\/?\s*>/i.test(line)) return line;
+      return line.replace(/([[({]{1,2})([^[\](){}\n]*<br\s*\/?\s*>[^[\](){}\n]*)([\])}]{1,2})/gi, (_m, open, label, close) => {
+        const replaced = String(label).replace(/<br\s*\/?\s*>/gi, "\\n").trim();
+        const quoted = /^".*"$/.test(replaced) ? replaced : `"${replaced.replace(/"/g, "#quot;")}"`;
+        return `${open}${quoted}${close}`;
+      });
+    }),
+  },
+  {
+    id: "missing-direction",
+    title: "flowchart の方向指定を補完",
+    diagrams: ["graph"],
+    apply: (code) => {
+      let done = false;
+      return mapLines(code, (line) => {
+        if (done || isCommentLine(line) || line.trim() === "") return line;
+        done = true;
+        const m = line.match(/^(\s*)(flowchart|graph)\s*$/i);
+        return m ? `${m[1]}${m[2]} TD` : line;
+      });
+    },
+  },
+  {
+    id: "unquoted-parentheses",
+    title: "括弧を含むラベルを二重引用符で囲む",
+    diagrams: ["graph"],
+    apply: (code) => mapLines(code, (line) => {
+      if (isCommentLine(line)) return line;
+      // A[text (note)] / A{text (x)} の中の丸括弧はシェイプ記号と誤認される
+      return line.replace(/([A-Za-z0-9_-]+)(\[|\{)([^"\]}\n]*\([^"\]}\n]*)(\]|\})/g, (m, id, open, label, close) => {
+        if ((open === "[" && close !== "]") || (open === "{" && close !== "}")) return m;
+        // [( )] や {{ }}、台形・平行四辺形（[/ /] [\ \] [/ \] [\ /]）などの複合シェイプはそのまま
+        if (/^[([{/\\]/.test(label)) return m;
+        return `${id}${open}"${label.trim().replace(/"/g, "#quot;")}"${close}`;
+      });
+    }),
+  },
+  {
+    id: "reserved-end-id",
+    title: "予約語 end をノードIDに使わない",
+    diagrams: ["graph"],
+    apply: (code) => mapLines(code, (line) => {
+      // 単独の end（end; も含む）は subgraph の終端
+      if (isCommentLine(line) || /^\s*end\s*;?\s*(%%.*)?$/.test(line)) return line;
+      return mapOutsideLabels(line, (seg) => seg.replace(/\bend\b/g, "End"));
+    }),
+  },
+  {
+    id: "arrow-syntax",
+    title: "図種に合わない矢印記法を修正",
+    diagrams: ["graph", "sequenceDiagram"],
+    apply: (code, ctx) => mapLines(code, (line) => {
+      if (isCommentLine(line)) return line;
+      if (ctx.diagram === "sequenceDiagram") {
+        // メッセージの => は ->> に（-> / --> / -x / -) は正しい矢印なので触らない。本文も触らない）
+        const [head, body] = splitMessage(line);
+        if (!body && !/[:：]$/.test(head)) return line;
+        return head.replace(/([^-=<])=>(?!>)/g, "$1->>") + body;
+      }
+      // flowchart: ->> / -> / => は --> / ==> に
+      return mapOutsideLabels(line, (seg) => seg
+        .replace(/(^|[^-=.])->>/g, "$1-->")
+        .replace(/(^|[^-=.<])->(?!>)/g, "$1-->")
+        .replace(/(^|[^=])=>(?!>)/g, "$1==>"));
+    }),
+  },
+  {
+    id: "unbalanced-brackets",
+    title: "閉じ括弧の不足を補う",
+    diagrams: ["graph"],
+    apply: (code) => mapLines(code, (line) => {
+      if (isCommentLine(line)) return line;
+      const stack: string[] = [];
+      let inQuote = false;
+      for (const ch of line) {
+        if (ch === '"') { inQuote = !inQuote; continue; }
+        if (inQuote) continue;
+        if (ch in OPENERS) stack.push(OPENERS[ch]);
+        else if (ch === "]" || ch === ")" || ch === "}") {
+          if (stack[stack.length - 1] === ch) stack.pop();
+          else return line; // 閉じ過ぎ・交差は推測しない
+        }
+      }
+      if (stack.length === 0) return line;
+      const closer = (inQuote ? '"' : "") + stack.reverse().join("");
+      return `${line.replace(/\s+$/, "")}${closer}`;
+    }),
+  },
+];
+
+/** 先頭の %% 行（init 等）を除いて図種を推定 */
+function inferDiagramSkippingDirectives(code: string): string | null {
+  const body = code.split("\n").filter(l => !isCommentLine(l) && l.trim() !== "").join("\n");
+  return inferDiagramType(body);
+}
+
+/** すべてのルールを順に適用し、発火したルールを返す */
+export function runAutoFix(code: string, rules: AutoFixRule[] = AUTO_FIX_RULES): AutoFixResult {
+  const ctx: AutoFixContext = { diagram: inferDiagramSkippingDirectives(code) };
+  const fired: AutoFixResult["fired"] = [];
+  let current = code;
+  for (const rule of rules) {
+    if (rule.diagrams && (!ctx.diagram || !rule.diagrams.includes(ctx.diagram))) continue;
+    const r = rule.apply(current, ctx);
+    if (r.count > 0 && r.code !== current) {
+      fired.push({ id: rule.id, title: rule.title, count: r.count });
+      current = r.code;
+    }
+  }
+  return { code: current, fired };
+}
@@ -0,0 +1,132 @@
+// ノート/フォルダ内の全 Mermaid 図を一括で書き出す
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import { BulkExportEntry, BulkExportManifest, ExportFormat, MermaidZoomPluginSettings } from "./types";
+import { extractMermaidBlocks, hashString } from "./utils";
+import { renderExportData, renderMermaidOffscreen } from "./export";
+
+export type BulkExportResult = { exported: number; skipped: number; failed: { source: string; blockIndex: number; error: string }[] };
+
+const MANIFEST_NAME = "manifest.json";
+
+export class BulkExporter {
+  constructor(private app: App, private settings: MermaidZoomPluginSettings) {}
+
+  private get folder(): string {
+    return normalizePath(this.settings.bulkExportFolder || "mermaid-exports");
+  }
+
+  /** 指定ファイル群の全ブロックを書き出す。ソースのハッシュが前回と同じならスキップ */
+  async run(files: TFile[], format: ExportFormat, background: string, onProgress?: (done: number, total: number) => void): Promise<BulkExportResult> {
+    await this.ensureFolder(this.folder);
+    const manifest = await this.loadManifest();
+    const result: BulkExportResult = { exported: 0, skipped: 0, failed: [] };
+    const scale = this.settings.pngScale ?? 2;
+    // 出力は形式以外の書き出し設定にも左右されるので、変えたら書き出し直す
+    const options = `${format}\n${scale}\n${background}\n${this.settings.exportEmbedFonts ? "fonts" : ""}`;
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      onProgress?.(i, files.length);
+      const text = await this.app.vault.cachedRead(file);
+      for (const block of extractMermaidBlocks(text)) {
+        const key = `${file.path}#${block.index}`;
+        const hash = hashString(`${options}\n${block.code}`);
+        const prev = manifest.entries[key];
+        const output = this.outputPath(file, block.index, format);
+        // 出力パスの決め方が変わった古いエントリは書き出し直す
+        if (prev && prev.hash === hash && prev.output === output && this.app.vault.getAbstractFileByPath(output) instanceof TFile) {
+          result.skipped++;
+          continue;
+        }
+
+        let rendered: { svg: SVGSVGElement; dispose: () => void } | null = null;
+        try {
+          rendered = await renderMermaidOffscreen(block.code);
+          const data = await renderExportData(rendered.svg, format, scale, background, { embedFonts: this.settings.exportEmbedFonts });
+          await this.ensureFolder(output.slice(0, output.lastIndexOf("/")));
+          await this.writeBinary(output, data);
+          // 形式を変えた場合は古い出力を残さない
+          if (prev && prev.output !== output) await this.removeIfExists(prev.output);
+          manifest.entries[key] = { source: file.path, blockIndex: block.index, output, format, hash, exportedAt: new Date().toISOString() };
+          result.exported++;
+        } catch (e: any) {
+          console.error(`一括エクスポート失敗: ${key}`, e);
+          result.failed.push({ source: file.path, blockIndex: block.index, error: e?.message ?? String(e) });
+        } finally {
+          rendered?.dispose();
+        }
+      }
+      // ブロック数が減った場合の古いエントリを整理
+      const count = extractMermaidBlocks(text).length;
+      for (const [key, entry] of Object.entries(manifest.entries)) {
+        if (entry.source === file.path && entry.blockIndex >= count) {
+          await this.removeIfExists(entry.output);
+          delete manifest.entries[key];
+        }
+      }
+    }
+    onProgress?.(files.length, files.length);
+
+    await this.saveManifest(manifest);
+    return result;
+  }
+
+  /** 出力パスはノートのパスから決定的に決める（再実行で上書きされる）。フォルダ構成は出力先の下にそのまま再現する */
+  private outputPath(file: TFile, blockIndex: number, format: ExportFormat): string {
+    const stem = file.path.replace(/\.md$/i, "").split("/").map(part => part.replace(/[\\:*?"<>|#^[\]]/g, "-")).join("/");
+    return normalizePath(`${this.folder}/${stem}-${blockIndex + 1}.${format}`);
+  }
+
+  private async loadManifest(): Promise<BulkExportManifest> {
+    const path = normalizePath(`${this.folder}/${MANIFEST_NAME}`);
+    try {
+      if (!(await this.app.vault.adapter.exists(path))) return { version: 1, entries: {} };
+      const parsed = JSON.parse(await this.app.vault.adapter.read(path));
+      if (parsed?.version === 1 && parsed.entries && typeof parsed.entries === "object") return parsed as BulkExportManifest;
+    } catch (e) {
+      console.warn("マニフェストの読み込みに失敗したため作り直します:", e);
+    }
+    return { version: 1, entries: {} };
+  }
+
+  private async saveManifest(manifest: BulkExportManifest): Promise<void> {
+    const path = normalizePath(`${this.folder}/${MANIFEST_NAME}`);
+    const sorted: Record<string, BulkExportEntry> = {};
+    Object.keys(manifest.entries).sort().forEach(k => { sorted[k] = manifest.entries[k]; });
+    await this.app.vault.adapter.write(path, JSON.stringify({ version: 1, entries: sorted }, null, 2));
+  }
+
+  private async writeBinary(path: string, data: ArrayBuffer): Promise<void> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) await this.app.vault.modifyBinary(existing, data);
+    else await this.app.vault.createBinary(path, data);
+  }
+
+  private async removeIfExists(path: string): Promise<void> {
+    const f = this.app.vault.getAbstractFileByPath(path);
+    if (f instanceof TFile) await this.app.vault.delete(f);
+  }
+
+  /** 途中のフォルダもなければ作る */
+  private async ensureFolder(path: string): Promise<void> {
+    const f = this.app.vault.getAbstractFileByPath(path);
+    if (f instanceof TFolder) return;
+    if (f) throw new Error(`出力先 ${path} はフォルダではありません。`);
+    const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    if (parent) await this.ensureFolder(parent);
+    await this.app.vault.createFolder(path);
+  }
+}
+
+/** フォルダ配下の Markdown ファイルを再帰的に列挙 */
+export function collectMarkdownFiles(folder: TFolder): TFile[] {
+  const out: TFile[] = [];
+  const walk = (f: TFolder) => {
+    for (const child of f.children) {
+      if (child instanceof TFolder) walk(child);
+      else if (child instanceof TFile && child.extension === "md") out.push(child);
+    }
+  };
+  walk(folder);
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,207 @@
+// 修正プレビューで使う Mermaid 用の小さなコードエディタ（CodeMirror 6）
+import { Annotation, ChangeSet, EditorState, RangeSetBuilder, StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, WidgetType, drawSelection, highlightActiveLine, keymap, lineNumbers } from "@codemirror/view";
+import { mermaidHighlighter } from "./mermaidSyntax";
+
+/** 行（1 始まり）に付ける class と、行内で rangeCls を付けて強調する範囲（行頭からの文字位置） */
+export type LineMark = { line: number; cls: string; ranges?: [number, number][]; rangeCls?: string };
+
+/** 畳む行の範囲（1 始まり、両端を含む）。折りたたみ表示をクリックすると onExpand を呼ぶ */
+export type LineFold = { from: number; to: number; label: string; onExpand: () => void };
+
+// 続けて入力した文字は、この間隔以内なら1回の取り消しでまとめて戻す
+const HISTORY_GROUP_MS = 500;
+
+const fromHistory = Annotation.define<boolean>();
+
+/** 行の装飾を丸ごと差し替える StateField。編集には位置をずらして追従する */
+function lineMarkField() {
+  const set = StateEffect.define<LineMark[]>();
+  const field = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(deco, tr) {
+      for (const e of tr.effects) {
+        if (!e.is(set)) continue;
+        const doc = tr.state.doc;
+        const builder = new RangeSetBuilder<Decoration>();
+        const marks = e.value.filter(m => m.line >= 1 && m.line <= doc.lines).sort((a, b) => a.line - b.line);
+        for (const mark of marks) {
+          const line = doc.line(mark.line);
+          builder.add(line.from, line.from, Decoration.line({ class: mark.cls }));
+          for (const [from, to] of mark.ranges ?? []) {
+            const start = Math.min(line.from + from, line.to);
+            const end = Math.min(line.from + to, line.to);
+            if (end > start) builder.add(start, end, Decoration.mark({ class: mark.rangeCls ?? mark.cls }));
+          }
+        }
+        return builder.finish();
+      }
+      return deco.map(tr.changes);
+    },
+    provide: (f) => EditorView.decorations.from(f),
+  });
+  return { set, field };
+}
+
+class FoldWidget extends WidgetType {
+  constructor(readonly label: string, readonly onExpand: () => void) {
+    super();
+  }
+
+  eq(other: FoldWidget): boolean {
+    return other.label === this.label;
+  }
+
+  toDOM(): HTMLElement {
+    const el = document.createElement("div");
+    el.className = "mermaid-fix-editor-fold";
+    el.textContent = this.label;
+    el.onclick = () => this.onExpand();
+    return el;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+/** 行の範囲を折りたたみ表示に置き換える StateField。差し替え方は lineMarkField と同じ */
+function lineFoldField() {
+  const set = StateEffect.define<LineFold[]>();
+  const field = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(deco, tr) {
+      for (const e of tr.effects) {
+        if (!e.is(set)) continue;
+        const doc = tr.state.doc;
+        const builder = new RangeSetBuilder<Decoration>();
+        const folds = e.value.filter(f => f.from >= 1 && f.from <= f.to && f.to <= doc.lines).sort((a, b) => a.from - b.from);
+        for (const fold of folds) {
+          const widget = new FoldWidget(fold.label, fold.onExpand);
+          builder.add(doc.line(fold.from).from, doc.line(fold.to).to, Decoration.replace({ widget, block: true }));
+        }
+        return builder.finish();
+      }
+      return deco.map(tr.changes);
+    },
+    provide: (f) => EditorView.decorations.from(f),
+  });
+  return { set, field };
+}
+
+export class MermaidCodeEditor {
+  readonly view: EditorView;
+  // 取り消し用の逆変更と、やり直し用の変更
+  private done: ChangeSet[] = [];
+  private undone: ChangeSet[] = [];
+  private lastEditTime = 0;
+  private diffMarks = lineMarkField();
+  private errorMarks = lineMarkField();
+  private folds = lineFoldField();
+
+  constructor(parent: HTMLElement, doc: string, private onChange: (code: string) => void) {
+    this.view = new EditorView({
+      parent,
+      state: EditorState.create({
+        doc,
+        extensions: [
+          lineNumbers(),
+          drawSelection(),
+          highlightActiveLine(),
+          EditorView.lineWrapping,
+          mermaidHighlighter(),
+          this.diffMarks.field,
+          this.errorMarks.field,
+          this.folds.field,
+          keymap.of([
+            { key: "Mod-z", run: () => this.undo(), preventDefault: true },
+            { key: "Mod-Shift-z", run: () => this.redo(), preventDefault: true },
+            { key: "Mod-y", run: () => this.redo(), preventDefault: true },
+          ]),
+          EditorView.updateListener.of((update) => {
+            if (!update.docChanged) return;
+            for (const tr of update.transactions) {
+              if (tr.docChanged && !tr.annotation(fromHistory)) this.record(tr.changes.invert(tr.startState.doc));
+            }
+            // 更新の途中では dispatch できないので、呼び出し側が装飾を付け直せるよう後で知らせる
+            const code = update.state.doc.toString();
+            queueMicrotask(() => this.onChange(code));
+          }),
+        ],
+      }),
+    });
+  }
+
+  get value(): string {
+    return this.view.state.doc.toString();
+  }
+
+  /** 全体を置き換える（取り消し可能） */
+  setValue(code: string): void {
+    this.lastEditTime = 0;
+    this.view.dispatch({ changes: { from: 0, to: this.view.state.doc.length, insert: code } });
+  }
+
+  get canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  undo(): boolean {
+    const inverse = this.done.pop();
+    if (!inverse) return false;
+    this.undone.push(inverse.invert(this.view.state.doc));
+    this.applyHistory(inverse);
+    return true;
+  }
+
+  redo(): boolean {
+    const changes = this.undone.pop();
+    if (!changes) return false;
+    this.done.push(changes.invert(this.view.state.doc));
+    this.applyHistory(changes);
+    return true;
+  }
+
+  /** 差分の強調（修正後の側の行） */
+  setDiffMarks(marks: LineMark[]): void {
+    this.view.dispatch({ effects: this.diffMarks.set.of(marks) });
+  }
+
+  /** 変更のない行を畳む（空配列ですべて展開） */
+  setFolds(folds: LineFold[]): void {
+    this.view.dispatch({ effects: this.folds.set.of(folds) });
+  }
+
+  /** 検証エラーの行（null で消す） */
+  setErrorLine(line: number | null): void {
+    const marks = line === null ? [] : [{ line, cls: "mermaid-fix-editor-error-line" }];
+    this.view.dispatch({ effects: this.errorMarks.set.of(marks) });
+  }
+
+  focus(): void {
+    this.view.focus();
+  }
+
+  destroy(): void {
+    this.view.destroy();
+  }
+
+  private record(inverse: ChangeSet): void {
+    const now = Date.now();
+    const last = this.done.length - 1;
+    // 新しい逆変更を先に適用し、その後で直前の逆変更を適用する
+    if (last >= 0 && now - this.lastEditTime < HISTORY_GROUP_MS) this.done[last] = inverse.compose(this.done[last]);
+    else this.done.push(inverse);
+    this.undone = [];
+    this.lastEditTime = now;
+  }
+
+  private applyHistory(changes: ChangeSet): void {
+    this.lastEditTime = 0;
+    this.view.dispatch({ changes, annotations: fromHistory.of(true), scrollIntoView: true });
+  }
+}
@@ -0,0 +1,114 @@
+// Mermaid ソースからノードと接続を取り出し、2つの版を比較する（flowchart / sequenceDiagram）
+import { inferDiagramType } from "./utils";
+
+export type GraphEdge = { from: string; to: string; label: string };
+
+export type DiagramGraph = {
+  type: "graph" | "sequenceDiagram";
+  /** ノードID → 表示名（sequenceDiagram は参加者ID → 表示名） */
+  nodes: Map<string, string>;
+  /** flowchart は接続、sequenceDiagram はメッセージ */
+  edges: GraphEdge[];
+};
+
+export type GraphDiff = {
+  addedNodes: string[];
+  removedNodes: string[];
+  /** IDは同じで表示名が変わったノード */
+  relabeledNodes: string[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+};
+
+// A[label] / B(label) / C{label} / D((label)) など。ラベル部分を取り出す
+const NODE_RE = /([\w\u3040-\u30ff\u4e00-\u9fff]+)\s*(\[\[|\[\(|\(\(|\(\[|\{\{|\[\/|\[\\|\[|\(|\{|>)\s*"?([^"\])}]*?)"?\s*(\]\]|\)\]|\)\)|\]\)|\}\}|\/\]|\\\]|\]|\)|\})/g;
+// --> / --- / ==> / -.-> / --x / <--> と |エッジラベル|
+const ARROW_RE = /\s*<?(?:-{2,}|={2,}|-\.+-)[>xo]?\s*(?:\|([^|]*)\|)?\s*/;
+const FLOWCHART_KEYWORDS = /^(subgraph|end|classDef|class|style|click|linkStyle|direction)\b/;
+
+/** 空行と %% 行を除いた、前後の空白を落とした行 */
+export function stripDirectives(code: string): string[] {
+  return code.split("\n").map(l => l.trim()).filter(l => l !== "" && !l.startsWith("%%"));
+}
+
+function parseFlowchart(lines: string[]): DiagramGraph {
+  const nodes = new Map<string, string>();
+  const edges: GraphEdge[] = [];
+  for (const line of lines.slice(1)) {
+    if (FLOWCHART_KEYWORDS.test(line)) continue;
+    const stripped = line.replace(NODE_RE, (_m, id: string, _o, label: string) => {
+      if (!nodes.has(id) || label) nodes.set(id, label.trim() || id);
+      return id;
+    })
+      // A -- テキスト --> B 形式のエッジラベルを |テキスト| 形式に寄せる
+      .replace(/\s(-{2}|={2})\s+([^|<>=-][^|<>]*?)\s+(-{2,}>|={2,}>|-{3,}|={3,})/g, " $3|$2|");
+    // split はキャプチャしたエッジラベルも含めて [A, ラベル, B, ラベル, C] の形で返す
+    const parts = stripped.split(new RegExp(ARROW_RE.source, "g"));
+    for (let i = 0; i < parts.length; i += 2) {
+      const id = parts[i]?.trim().replace(/;$/, "");
+      if (id && !nodes.has(id)) nodes.set(id, id);
+    }
+    for (let i = 0; i + 2 < parts.length; i += 2) {
+      const from = parts[i].trim().replace(/;$/, "");
+      const to = parts[i + 2].trim().replace(/;$/, "");
+      if (!from || !to) continue;
+      edges.push({ from, to, label: parts[i + 1]?.trim() ?? "" });
+    }
+  }
+  return { type: "graph", nodes, edges };
+}
+
+function parseSequence(lines: string[]): DiagramGraph {
+  const nodes = new Map<string, string>();
+  const edges: GraphEdge[] = [];
+  for (const line of lines.slice(1)) {
+    const p = line.match(/^(?:participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/);
+    if (p) {
+      nodes.set(p[1], p[2]?.trim() || nodes.get(p[1]) || p[1]);
+      continue;
+    }
+    const m = line.match(/^([^\s:>-]+)\s*(?:-{1,2}>>|-{1,2}>|-{1,2}x|-{1,2}\))\s*[+-]?([^\s:]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    if (!nodes.has(m[1])) nodes.set(m[1], m[1]);
+    if (!nodes.has(m[2])) nodes.set(m[2], m[2]);
+    edges.push({ from: m[1], to: m[2], label: m[3] });
+  }
+  return { type: "sequenceDiagram", nodes, edges };
+}
+
+/** 対応していない図種なら null */
+export function parseDiagramGraph(code: string): DiagramGraph | null {
+  const lines = stripDirectives(code);
+  const type = inferDiagramType(lines.join("\n"));
+  if (type === "graph") return parseFlowchart(lines);
+  if (type === "sequenceDiagram") return parseSequence(lines);
+  return null;
+}
+
+/** 同じ接続が複数あっても数が合うよう、出現回数付きのキーにする */
+function edgeKeys(edges: GraphEdge[]): Map<string, GraphEdge> {
+  const keys = new Map<string, GraphEdge>();
+  const seen = new Map<string, number>();
+  for (const edge of edges) {
+    const base = `${edge.from}\u0000${edge.to}\u0000${edge.label}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keys.set(`${base}\u0000${n}`, edge);
+  }
+  return keys;
+}
+
+export function diffDiagramGraphs(before: DiagramGraph, after: DiagramGraph): GraphDiff {
+  const addedNodes = [...after.nodes.keys()].filter(id => !before.nodes.has(id));
+  const removedNodes = [...before.nodes.keys()].filter(id => !after.nodes.has(id));
+  const relabeledNodes = [...after.nodes.keys()].filter(id => before.nodes.has(id) && before.nodes.get(id) !== after.nodes.get(id));
+  const beforeEdges = edgeKeys(before.edges);
+  const afterEdges = edgeKeys(after.edges);
+  const addedEdges = [...afterEdges].filter(([k]) => !beforeEdges.has(k)).map(([, e]) => e);
+  const removedEdges = [...beforeEdges].filter(([k]) => !afterEdges.has(k)).map(([, e]) => e);
+  return { addedNodes, removedNodes, relabeledNodes, addedEdges, removedEdges };
+}
+
+export function isEmptyGraphDiff(diff: GraphDiff): boolean {
+  return diff.addedNodes.length + diff.removedNodes.length + diff.relabeledNodes.length + diff.addedEdges.length + diff.removedEdges.length === 0;
+}
@@ -0,0 +1,133 @@
+// 検証結果を一覧表示するサイドペイン
+import { ItemView, WorkspaceLeaf, TFile, TAbstractFile, MarkdownView, debounce } from "obsidian";
+import { ValidationIssue, ValidationScope } from "./types";
+
+export const VIEW_TYPE_MERMAID_ERRORS = "mermaid-error-panel";
+
+export class MermaidErrorView extends ItemView {
+  private issues: ValidationIssue[] = [];
+  private target: ValidationScope | null = null;
+  private pending = new Set<string>();
+
+  /** revalidate: 指定ファイルを再検証して最新の問題一覧を返す（plugin 側で実装） */
+  constructor(leaf: WorkspaceLeaf, private revalidate: (file: TFile) => Promise<ValidationIssue[]>) {
+    super(leaf);
+  }
+
+  getViewType(): string { return VIEW_TYPE_MERMAID_ERRORS; }
+  getDisplayText(): string { return "Mermaid エラー"; }
+  getIcon(): string { return "alert-triangle"; }
+
+  async onOpen(): Promise<void> {
+    this.registerEvent(this.app.vault.on("modify", (f) => this.onFileModified(f)));
+    this.registerEvent(this.app.vault.on("delete", (f) => {
+      if (!this.issues.some(i => i.path === f.path)) return;
+      this.issues = this.issues.filter(i => i.path !== f.path);
+      this.render();
+    }));
+    this.registerEvent(this.app.vault.on("rename", (f, oldPath) => {
+      if (this.target?.kind === "file" && this.target.path === oldPath) this.target = { kind: "file", path: f.path };
+      if (!this.issues.some(i => i.path === oldPath)) return;
+      this.issues = this.issues.map(i => i.path === oldPath ? { ...i, path: f.path } : i);
+      this.render();
+    }));
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  /** 検証結果を差し替えて再描画 */
+  setIssues(scope: ValidationScope, issues: ValidationIssue[]): void {
+    this.target = scope;
+    this.issues = [...issues];
+    this.sortIssues();
+    this.render();
+  }
+
+  private onFileModified(f: TAbstractFile): void {
+    if (!(f instanceof TFile) || f.extension !== "md" || !this.target) return;
+    if (this.target.kind === "file" && this.target.path !== f.path) return;
+    this.pending.add(f.path);
+    this.flushPending();
+  }
+
+  // 連続入力中は再検証しない
+  private flushPending = debounce(async () => {
+    const paths = [...this.pending];
+    this.pending.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      try {
+        const fresh = await this.revalidate(file);
+        this.issues = [...this.issues.filter(i => i.path !== path), ...fresh];
+      } catch (e) {
+        console.error(`再検証に失敗しました: ${path}`, e);
+      }
+    }
+    this.sortIssues();
+    this.render();
+  }, 800, true);
+
+  private sortIssues(): void {
+    this.issues.sort((a, b) => a.path === b.path ? a.blockIndex - b.blockIndex : a.path.localeCompare(b.path));
+  }
+
+  private render(): void {
+    const root = this.contentEl;
+    root.empty();
+    root.addClass("mermaid-error-view");
+
+    const header = root.createDiv({ cls: "mermaid-error-header" });
+    const scopeText = !this.target ? "未検証" : this.target.kind === "vault" ? "対象: 全ファイル" : `対象: ${this.target.path}`;
+    header.createDiv({ cls: "mermaid-error-scope", text: scopeText });
+    if (this.target) {
+      header.createDiv({
+        cls: "mermaid-error-summary",
+        text: this.issues.length === 0 ? "エラーはありません。" : `エラー ${this.issues.length}件`,
+      });
+    } else {
+      header.createDiv({ cls: "mermaid-error-summary", text: "「Mermaid: 構文エラー検出」を実行してください。" });
+      return;
+    }
+
+    const list = root.createDiv({ cls: "mermaid-error-list" });
+    let lastPath = "";
+    for (const issue of this.issues) {
+      if (issue.path !== lastPath) {
+        list.createDiv({ cls: "mermaid-error-file", text: issue.path });
+        lastPath = issue.path;
+      }
+      const item = list.createDiv({ cls: "mermaid-error-item" });
+      item.createDiv({
+        cls: "mermaid-error-location",
+        text: `ブロック #${issue.blockIndex + 1}（${issue.startLine + 1}〜${issue.endLine + 1}行）`,
+      });
+      item.createEl("pre", { cls: "mermaid-error-message", text: issue.message });
+      item.addEventListener("click", () => { void this.jumpTo(issue); });
+    }
+  }
+
+  private async jumpTo(issue: ValidationIssue): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(issue.path);
+    if (!(file instanceof TFile)) return;
+
+    // 既に開いているタブがあれば再利用
+    let leaf: WorkspaceLeaf | null = null;
+    this.app.workspace.iterateAllLeaves((l) => {
+      if (!leaf && l.view instanceof MarkdownView && l.view.file?.path === issue.path) leaf = l;
+    });
+    const dest: WorkspaceLeaf = leaf ?? this.app.workspace.getLeaf(false);
+    await dest.openFile(file);
+    this.app.workspace.setActiveLeaf(dest, { focus: true });
+
+    const view = dest.view;
+    if (!(view instanceof MarkdownView)) return;
+    const from = { line: issue.startLine, ch: 0 };
+    const to = { line: issue.endLine, ch: view.editor.getLine(issue.endLine)?.length ?? 0 };
+    view.editor.setSelection(from, to);
+    view.editor.scrollIntoView({ from, to }, true);
+  }
+}
@@ -0,0 +1,247 @@
+// SVG/PNG/PDF への書き出しユーティリティ
+import { moment } from "obsidian";
+import { ExportFormat } from "./types";
+import { isTransparentColor } from "./utils";
+import { convertHtmlLabel } from "./htmlLabels";
+import { embedUsedFonts } from "./fontEmbed";
+
+/** 書き出し時にインライン化するプロパティと、その初期値（初期値と同じなら書かない） */
+const INLINE_PROPS: Record<string, string | null> = {
+  "fill-opacity": "1",
+  "fill-rule": "nonzero",
+  "stroke": "none",
+  "stroke-width": "1px",
+  "stroke-dasharray": "none",
+  "stroke-dashoffset": "0px",
+  "stroke-linecap": "butt",
+  "stroke-linejoin": "miter",
+  "stroke-miterlimit": "4",
+  "stroke-opacity": "1",
+  "opacity": "1",
+  "marker-start": "none",
+  "marker-mid": "none",
+  "marker-end": "none",
+  "color": null,
+};
+/** 文字を描く要素にだけ書くプロパティ */
+const TEXT_PROPS: Record<string, string | null> = {
+  "font-family": null,
+  "font-size": null,
+  "font-weight": "400",
+  "font-style": "normal",
+  "text-anchor": "start",
+  "dominant-baseline": "auto",
+  "letter-spacing": "normal",
+};
+const TEXT_TAGS = new Set(["svg", "text", "tspan", "textpath"]);
+
+export type SvgExportOptions = {
+  /** 背景色（透明なら付けない） */
+  background?: string;
+  /** 使用フォントの @font-face を埋め込む */
+  embedFonts?: boolean;
+};
+
+/** marker-end などの url() は文書の URL 付きで返ることがあるので、SVG 内の参照に戻す */
+function localUrl(value: string): string {
+  return value.replace(/url\(\s*["']?[^"')]*?(#[^"')]+)["']?\s*\)/g, "url($1)");
+}
+
+/**
+ * 計算済みスタイルをインライン化した SVG の複製を作る（テーマCSSに依存しない出力用）。
+ * foreignObject（HTMLラベル）は描画結果を測って text / tspan に置き換える。
+ */
+export function cloneSvgWithInlineStyles(orig: SVGSVGElement): SVGSVGElement {
+  const clone = orig.cloneNode(true) as SVGSVGElement;
+  const labels: [SVGForeignObjectElement, Element][] = [];
+  const traverse = (src: Element, dst: Element) => {
+    if (src instanceof SVGForeignObjectElement) { labels.push([src, dst]); return; }
+    const comp = getComputedStyle(src);
+    const style = (dst as SVGElement).style;
+    const origFillAttr = src.getAttribute("fill");
+    const compFill = comp.getPropertyValue("fill");
+    if (origFillAttr?.trim() === "none") {
+      dst.setAttribute("fill", "none");
+    } else if (compFill && compFill !== "rgba(0, 0, 0, 0)") {
+      style.setProperty("fill", localUrl(compFill));
+    }
+    const inline = (props: Record<string, string | null>) => {
+      for (const [p, initial] of Object.entries(props)) {
+        const v = comp.getPropertyValue(p);
+        if (!v || v === initial || v === "rgba(0, 0, 0, 0)") continue;
+        style.setProperty(p, localUrl(v));
+      }
+    };
+    inline(INLINE_PROPS);
+    if (TEXT_TAGS.has(src.tagName.toLowerCase())) inline(TEXT_PROPS);
+    if (comp.getPropertyValue("display") === "none") style.setProperty("display", "none");
+    Array.from(src.children).forEach((c, i) => { if (dst.children[i]) traverse(c, dst.children[i]); });
+  };
+  traverse(orig, clone);
+  labels.forEach(([src, dst]) => convertHtmlLabel(src, dst));
+  return clone;
+}
+
+/** 表示上の大きさ。拡大表示中の図は transform で拡大されているので、レイアウト上の大きさを優先する */
+function svgLayoutSize(svg: SVGSVGElement): { width: number; height: number } {
+  if (svg.clientWidth > 0 && svg.clientHeight > 0) return { width: svg.clientWidth, height: svg.clientHeight };
+  const rect = svg.getBoundingClientRect();
+  return { width: rect.width, height: rect.height };
+}
+
+/** 書き出し用の SVG 要素を組み立てる（スタイルのインライン化・ラベル変換・背景・フォント埋め込み） */
+async function buildExportSvg(srcSvg: SVGSVGElement, options: SvgExportOptions): Promise<SVGSVGElement> {
+  const svgClone = cloneSvgWithInlineStyles(srcSvg);
+  svgClone.removeAttribute("class");
+  // Mermaid の max-width 指定は単体表示では不要
+  svgClone.style.removeProperty("max-width");
+  const background = options.background;
+  if (background && !isTransparentColor(background)) svgClone.style.setProperty("background-color", background);
+  if (!svgClone.hasAttribute("viewBox")) {
+    const { width, height } = srcSvg.getBBox();
+    svgClone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  }
+  const size = svgLayoutSize(srcSvg);
+  // width="100%" のままだと Inkscape などで大きさが決まらない
+  if (!/^[\d.]+(px)?$/.test(svgClone.getAttribute("width") ?? "")) svgClone.setAttribute("width", size.width.toString());
+  if (!/^[\d.]+(px)?$/.test(svgClone.getAttribute("height") ?? "")) svgClone.setAttribute("height", size.height.toString());
+  if (options.embedFonts) await embedUsedFonts(svgClone);
+  return svgClone;
+}
+
+/** 単体で表示できる SVG 文字列を生成（viewBox / width / height を補完） */
+export async function serializeSvgForExport(srcSvg: SVGSVGElement, options: SvgExportOptions = {}): Promise<string> {
+  return new XMLSerializer().serializeToString(await buildExportSvg(srcSvg, options));
+}
+
+/** SVG を canvas に描画する。戻り値の canvas は呼び出し側で toBlob する */
+export async function rasterizeSvg(srcSvg: SVGSVGElement, scale: number, background: string, embedFonts = false): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> {
+  // 背景は canvas 側で塗る
+  const svgClone = await buildExportSvg(srcSvg, { embedFonts });
+  const { width, height } = svgLayoutSize(srcSvg);
+  svgClone.setAttribute("width", `${width * scale}`);
+  svgClone.setAttribute("height", `${height * scale}`);
+  const svgData = new XMLSerializer().serializeToString(svgClone);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvasコンテキストの取得に失敗しました。");
+
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("PNGへの変換に失敗しました（画像読み込みエラー）。"));
+    img.src = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgData)))}`;
+  });
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, width, height };
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: "image/png" | "image/jpeg", quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) { reject(new Error(`${type === "image/png" ? "PNG" : "JPEG"} Blobの生成に失敗しました。`)); return; }
+      resolve(blob);
+    }, type, quality);
+  });
+}
+
+/** JPEG 1枚を全面に貼った1ページの PDF を組み立てる（外部ライブラリ不要の最小構成） */
+export function buildSinglePagePdf(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, pageWidthPt: number, pageHeightPt: number): ArrayBuffer {
+  const enc = new TextEncoder();
+  const w = pageWidthPt.toFixed(2), h = pageHeightPt.toFixed(2);
+  const content = `q\n${w} 0 0 ${h} 0 0 cm\n/Im0 Do\nQ\n`;
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === "string" ? enc.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  push("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, "<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  object(3, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+  offsets[4] = length;
+  push(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  push(jpeg);
+  push("\nendstream\nendobj\n");
+  object(5, `<< /Length ${enc.encode(content).length} >>\nstream\n${content}endstream`);
+
+  const xrefOffset = length;
+  const xref = ["xref", "0 6", "0000000000 65535 f "];
+  for (let id = 1; id <= 5; id++) xref.push(`${String(offsets[id]).padStart(10, "0")} 00000 n `);
+  push(`${xref.join("\n")}\ntrailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const p of parts) { out.set(p, pos); pos += p.length; }
+  return out.buffer;
+}
+
+/**
+ * 指定形式のバイナリを生成（PNG/PDF は pngScale 倍で描画）。
+ * SVG は svgBackground が true のときだけ背景色を付ける。
+ */
+export async function renderExportData(srcSvg: SVGSVGElement, format: ExportFormat, scale: number, background: string, options: { svgBackground?: boolean; embedFonts?: boolean } = {}): Promise<ArrayBuffer> {
+  if (format === "svg") {
+    const svg = await serializeSvgForExport(srcSvg, { background: options.svgBackground ? background : undefined, embedFonts: options.embedFonts });
+    return new TextEncoder().encode(svg).buffer;
+  }
+
+  // JPEG は透過できないので、PDF では白で塗る
+  const fill = format === "pdf" && isTransparentColor(background) ? "#ffffff" : background;
+  const { canvas, width, height } = await rasterizeSvg(srcSvg, scale, fill, options.embedFonts);
+  if (format === "png") return (await canvasToBlob(canvas, "image/png")).arrayBuffer();
+
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, "image/jpeg", 0.95)).arrayBuffer());
+  // CSS px(1/96in) → pt(1/72in)
+  return buildSinglePagePdf(jpeg, canvas.width, canvas.height, width * 0.75, height * 0.75);
+}
+
+/** ファイル名テンプレートの展開。{{note}} {{index}} {{date}} {{date:YYYY-MM-DD}} に対応 */
+export function formatExportFileName(template: string, vars: { note: string; index: number }): string {
+  const name = (template || "{{note}}-{{index}}")
+    .replace(/\{\{\s*note\s*\}\}/gi, vars.note)
+    .replace(/\{\{\s*index\s*\}\}/gi, String(vars.index))
+    .replace(/\{\{\s*date(?::([^}]+))?\s*\}\}/gi, (_m, fmt) => moment().format(fmt ? String(fmt).trim() : "YYYYMMDD-HHmmss"));
+  // パス区切り・予約文字は除去
+  const safe = name.replace(/[\\/:*?"<>|#^[\]]/g, "-").replace(/\s+/g, " ").trim();
+  return safe || "diagram";
+}
+
+/** 画面外で Mermaid を描画し、計算済みスタイル付きの SVG を得る。使用後は dispose() を呼ぶ */
+export async function renderMermaidOffscreen(code: string): Promise<{ svg: SVGSVGElement; dispose: () => void }> {
+  const m: any = (window as any).mermaid;
+  if (!m?.render) throw new Error("Mermaid がロードされていません。");
+
+  const host = document.createElement("div");
+  host.className = "mermaid-offscreen-render";
+  document.body.appendChild(host);
+  const dispose = () => host.remove();
+  try {
+    const id = `mermaid-export-${Math.random().toString(36).slice(2)}`;
+    const r = await m.render(id, code);
+    const svgText = typeof r === "string" ? r : r?.svg;
+    if (!svgText) throw new Error("レンダリングに失敗しました");
+    host.innerHTML = svgText;
+    const svg = host.querySelector("svg");
+    if (!svg) throw new Error("SVG要素が見つかりませんでした。");
+    // mermaid.render が body 直下に残す一時要素を掃除
+    document.getElementById(`d${id}`)?.remove();
+    return { svg: svg as SVGSVGElement, dispose };
+  } catch (e) {
+    dispose();
+    throw e;
+  }
+}
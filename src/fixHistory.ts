@@ -0,0 +1,107 @@
+// LLM 修正の履歴。検証に通った修正だけを残し、同じ壊れ方の図にはキャッシュとして使い回す
+import { App, normalizePath } from "obsidian";
+import { FixHistoryEntry } from "./types";
+import { FixCache } from "./gemini";
+
+// キャッシュから使われたときの最終使用日時の書き込みは、まとめて行う
+const TOUCH_SAVE_DELAY_MS = 2000;
+
+/** プラグインフォルダ内の JSON に保存する。件数が上限を超えたら使われていない順に消す */
+export class FixHistoryStore implements FixCache {
+  private path: string;
+  private entries: FixHistoryEntry[] = [];
+  private listeners = new Set<() => void>();
+  // 書き込みは順番に行う（同時に書くと古い内容で上書きされうる）
+  private writing: Promise<void> = Promise.resolve();
+  private touchTimer: number | null = null;
+
+  constructor(private app: App, pluginDir: string, private maxEntries: () => number) {
+    this.path = normalizePath(`${pluginDir}/fix-history.json`);
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.path))) return;
+      const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+      this.entries = Array.isArray(parsed?.entries) ? parsed.entries as FixHistoryEntry[] : [];
+    } catch (e) {
+      console.error("修正履歴の読み込みに失敗しました:", e);
+      this.entries = [];
+    }
+  }
+
+  /** 新しい順 */
+  list(): FixHistoryEntry[] {
+    return [...this.entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  has(key: string): boolean {
+    return this.entries.some(e => e.key === key);
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.entries.find(e => e.key === key);
+    if (!entry) return undefined;
+    entry.lastUsedAt = new Date().toISOString();
+    this.scheduleTouchSave();
+    return entry.fixed;
+  }
+
+  /** 同じキーの記録は置き換える */
+  async add(entry: Omit<FixHistoryEntry, "id" | "createdAt" | "lastUsedAt">): Promise<void> {
+    const now = new Date().toISOString();
+    this.entries = this.entries.filter(e => e.key !== entry.key);
+    this.entries.push({ ...entry, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, createdAt: now, lastUsedAt: now });
+    this.evict();
+    await this.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter(e => e.id !== id);
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+    await this.save();
+  }
+
+  /** 上限の変更をすぐ反映する */
+  async trim(): Promise<void> {
+    if (this.evict()) await this.save();
+  }
+
+  /** 履歴が変わったときに呼ばれる。戻り値で登録を解除する */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private evict(): boolean {
+    const max = Math.max(0, this.maxEntries());
+    if (this.entries.length <= max) return false;
+    this.entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+    this.entries.length = max;
+    return true;
+  }
+
+  private scheduleTouchSave(): void {
+    if (this.touchTimer !== null) return;
+    this.touchTimer = window.setTimeout(() => {
+      this.touchTimer = null;
+      void this.write();
+    }, TOUCH_SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    this.listeners.forEach(listener => listener());
+    await this.write();
+  }
+
+  private write(): Promise<void> {
+    this.writing = this.writing
+      .then(() => this.app.vault.adapter.write(this.path, JSON.stringify({ entries: this.entries })))
+      .catch((e) => console.error("修正履歴の保存に失敗しました:", e));
+    return this.writing;
+  }
+}
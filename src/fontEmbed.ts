@@ -0,0 +1,163 @@
+// 書き出す SVG に使用フォントを埋め込む
+// 文字単位のサブセット化はフォントの解析が必要なので、@font-face の unicode-range 単位で使う面だけを選ぶ
+
+type UsedFont = { weights: Set<number>; styles: Set<string> };
+
+function normalizeFamily(name: string): string {
+  return name.trim().replace(/^["']|["']$/g, "").toLowerCase();
+}
+
+function weightOf(value: string): number {
+  if (value === "bold") return 700;
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : 400;
+}
+
+/** 書き出す SVG のインラインスタイルから、使われているフォントファミリー・太さ・スタイルを集める */
+function collectUsedFonts(svg: SVGSVGElement): Map<string, UsedFont> {
+  const used = new Map<string, UsedFont>();
+  const visit = (el: Element, inherited: { family: string; weight: string; style: string }) => {
+    const s = (el as SVGElement).style;
+    const current = {
+      family: s?.getPropertyValue("font-family") || inherited.family,
+      weight: s?.getPropertyValue("font-weight") || inherited.weight,
+      style: s?.getPropertyValue("font-style") || inherited.style,
+    };
+    const hasText = Array.from(el.childNodes).some(n => n.nodeType === Node.TEXT_NODE && n.textContent?.trim());
+    if (hasText && current.family) {
+      for (const family of current.family.split(",")) {
+        const key = normalizeFamily(family);
+        if (!key) continue;
+        const entry = used.get(key) ?? { weights: new Set<number>(), styles: new Set<string>() };
+        entry.weights.add(weightOf(current.weight));
+        entry.styles.add(current.style === "italic" || current.style === "oblique" ? "italic" : "normal");
+        used.set(key, entry);
+      }
+    }
+    Array.from(el.children).forEach(child => visit(child, current));
+  };
+  visit(svg, { family: "", weight: "400", style: "normal" });
+  return used;
+}
+
+/** unicode-range（U+0000-00FF, U+4E??）が使用文字を含むか */
+function rangeIntersects(unicodeRange: string, codePoints: Set<number>): boolean {
+  if (!unicodeRange.trim()) return true;
+  return unicodeRange.split(",").some((part) => {
+    const m = part.trim().match(/^u\+([0-9a-f?]+)(?:-([0-9a-f]+))?$/i);
+    if (!m) return true;
+    const start = parseInt(m[1].replace(/\?/g, "0"), 16);
+    const end = m[2] ? parseInt(m[2], 16) : parseInt(m[1].replace(/\?/g, "f"), 16);
+    for (const cp of codePoints) if (cp >= start && cp <= end) return true;
+    return false;
+  });
+}
+
+/** font-weight は "400" のほか可変フォントの "100 900" もある */
+function weightMatches(ruleWeight: string, weights: Set<number>): boolean {
+  const parts = ruleWeight.trim().split(/\s+/).filter(Boolean).map(weightOf);
+  if (parts.length === 0) return true;
+  const [min, max] = parts.length === 1 ? [parts[0], parts[0]] : [parts[0], parts[1]];
+  for (const w of weights) if (w >= min && w <= max) return true;
+  return false;
+}
+
+function fontFaceRules(sheets: StyleSheetList | CSSStyleSheet[]): { rule: CSSFontFaceRule; base: string }[] {
+  const out: { rule: CSSFontFaceRule; base: string }[] = [];
+  const visit = (sheet: CSSStyleSheet) => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      return; // 別オリジンのスタイルシートは読めない
+    }
+    const base = sheet.href ?? document.baseURI;
+    Array.from(rules).forEach((rule) => {
+      if (rule instanceof CSSFontFaceRule) out.push({ rule, base });
+      else if (rule instanceof CSSImportRule && rule.styleSheet) visit(rule.styleSheet);
+    });
+  };
+  Array.from(sheets).forEach(sheet => visit(sheet as CSSStyleSheet));
+  return out;
+}
+
+// 一括エクスポートで同じフォントを何度も読まないよう、URL ごとに結果を使い回す
+const dataUriCache = new Map<string, Promise<string>>();
+
+function toDataUri(url: string): Promise<string> {
+  if (url.startsWith("data:")) return Promise.resolve(url);
+  let pending = dataUriCache.get(url);
+  if (!pending) {
+    pending = fetchAsDataUri(url);
+    // 失敗は覚えない（次回に再試行する）
+    pending.catch(() => dataUriCache.delete(url));
+    dataUriCache.set(url, pending);
+  }
+  return pending;
+}
+
+async function fetchAsDataUri(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${res.status} ${url}`);
+  const blob = await res.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * SVG 内で使われているフォントの @font-face を data URI にして <defs><style> に埋め込む。
+ * 埋め込んだ面の数を返す（システムフォントなど @font-face がないものは埋め込めない）。
+ */
+export async function embedUsedFonts(svg: SVGSVGElement): Promise<number> {
+  const used = collectUsedFonts(svg);
+  if (used.size === 0) return 0;
+  const codePoints = new Set<number>();
+  for (const ch of svg.textContent ?? "") codePoints.add(ch.codePointAt(0) ?? 0);
+
+  const faces: string[] = [];
+  for (const { rule, base } of fontFaceRules(document.styleSheets)) {
+    const s = rule.style;
+    const family = normalizeFamily(s.getPropertyValue("font-family"));
+    const entry = used.get(family);
+    if (!entry) continue;
+    const style = /italic|oblique/.test(s.getPropertyValue("font-style")) ? "italic" : "normal";
+    if (!entry.styles.has(style) || !weightMatches(s.getPropertyValue("font-weight"), entry.weights)) continue;
+    const unicodeRange = s.getPropertyValue("unicode-range");
+    if (!rangeIntersects(unicodeRange, codePoints)) continue;
+
+    const src = s.getPropertyValue("src");
+    const m = src.match(/url\(\s*(["']?)(.*?)\1\s*\)(?:\s*format\(\s*["']?([^"')]+)["']?\s*\))?/);
+    if (!m) continue;
+    try {
+      const data = await toDataUri(new URL(m[2], base).href);
+      const decl = [
+        `font-family: "${s.getPropertyValue("font-family").replace(/^["']|["']$/g, "")}"`,
+        `src: url("${data}")${m[3] ? ` format("${m[3]}")` : ""}`,
+      ];
+      ["font-weight", "font-style", "font-stretch"].forEach((p) => {
+        const v = s.getPropertyValue(p);
+        if (v) decl.push(`${p}: ${v}`);
+      });
+      if (unicodeRange) decl.push(`unicode-range: ${unicodeRange}`);
+      faces.push(`@font-face { ${decl.join("; ")}; }`);
+    } catch (e) {
+      console.warn("Mermaid Zoom Plugin: フォントを埋め込めませんでした:", m[2], e);
+    }
+  }
+  if (faces.length === 0) return 0;
+
+  const ns = "http://www.w3.org/2000/svg";
+  let defs = svg.querySelector(":scope > defs");
+  if (!defs) {
+    defs = document.createElementNS(ns, "defs");
+    svg.insertBefore(defs, svg.firstChild);
+  }
+  const style = document.createElementNS(ns, "style");
+  style.textContent = faces.join("\n");
+  defs.insertBefore(style, defs.firstChild);
+  return faces.length;
+}
@@ -1,5 +1,7 @@
 import { BuildOpts } from "./types";
 import { stripCodeFences, withTimeout, inferDiagramType } from "./utils";
+import { LlmProvider, GeminiProvider } from "./providers";
+import { LlmScheduler } from "./llmScheduler";
 
 /** 出力ノイズ削減用：BOM/ゼロ幅/全角ハイフン等の危険文字を除去/正規化 */
 function normalizeSurface(s: string): string {
@@ -224,82 +226,78 @@ sequenceDiagram
   return [header, body].join("\n");
 }
 
-type GeminiFinishReason = "STOP" | "MAX_TOKENS" | "SAFETY" | "RECITATION" | "OTHER" | string;
-
-/** 単発実行：累積リトライ廃止。APIバージョンは固定（既定 'v1'）。 */
-async function callGeminiSingle(
-  apiKey: string,
-  model: string,
-  version: "v1" | "v1beta",
-  body: any,
-  signal: AbortSignal
-): Promise<string> {
-  const url = `https://generativelanguage.googleapis.com/${version}/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
+const fixMemo = new Map<string, string>();
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-    signal
-  });
+/** セッションをまたいで修正結果を引けるキャッシュ（プラグイン側の永続キャッシュを渡す）。
+ *  渡したときは fixMemo を使わない（検証に落ちた出力が残り、キャッシュの削除も反映されなくなるため） */
+export interface FixCache {
+  get(key: string): string | undefined;
+}
 
-  const text = await res.text().catch(() => "");
-  if (!res.ok) {
-    if (res.status === 401 || res.status === 403) {
-      throw new Error(`Gemini API 認証エラー (${res.status}). APIキーやプロジェクト設定を確認してください。応答: ${text}`);
-    }
-    if (res.status === 404 && /not found/i.test(text)) {
-      throw new Error(`モデルが見つかりません (${version}). モデル名とAPIバージョンの組み合わせを確認してください。応答: ${text}`);
-    }
-    if (res.status === 429) {
-      throw new Error(`レート制限に到達しました (429)。応答: ${text}`);
-    }
-    if (res.status >= 500) {
-      throw new Error(`Gemini サーバーエラー (${res.status})。応答: ${text}`);
-    }
-    throw new Error(`Gemini API エラー: ${res.status} ${text}`);
-  }
+/** 修正結果のキャッシュキー（モデル・図種・正規化したコード・エラー） */
+export function fixCacheKey(provider: LlmProvider, original: string, errorMsg: string): string {
+  const diagram = inferDiagramType(original);
+  return `${provider.cacheKey}::${diagram ?? "unknown"}::${preNormalizeMermaid(original)}::${errorMsg || ""}`;
+}
 
-  let data: any = {};
-  try { data = text ? JSON.parse(text) : {}; } catch {
-    throw new Error(`Gemini応答のJSON解析に失敗しました。生データ: ${text.slice(0, 400)}`);
-  }
+// 候補をまとめて返すプロバイダに頼むときの温度（0 だと同じ候補ばかりになる）
+const CANDIDATE_TEMPERATURE = 0.7;
+// 1件ずつ頼むときは温度を 0 からこの値まで散らし、同じ誤答に収束しないようにする
+const CANDIDATE_MAX_TEMPERATURE = 1.0;
 
-  const candidate = data?.candidates?.[0];
-  if (!candidate) {
-    const feedback = data?.promptFeedback;
-    const reason = feedback?.blockReason ?? "候補が返されませんでした";
-    const ratings = (feedback?.safetyRatings ?? []).map((r: any) => `${r.category}:${r.probability}`).join(", ");
-    throw new Error(`Geminiからの応答が不正です。理由: ${reason}${ratings ? `（詳細: ${ratings}）` : ""}`);
-  }
+/** 公開API：修正候補を count 件まで生成する（空・重複の候補は除く）。キャッシュは使わない。
+ *  候補をまとめて返せるプロバイダは1回のリクエストで、それ以外は温度を変えて count 回問い合わせる。 */
+export async function llmFixCandidates(
+  provider: LlmProvider,
+  original: string,
+  errorMsg: string,
+  timeoutMs: number,
+  count: number,
+  scheduler: LlmScheduler
+): Promise<string[]> {
+  const diagram = inferDiagramType(original);
+  const prompt = buildGeminiPromptV2(preNormalizeMermaid(original), errorMsg, {
+    diagramHint: diagram ?? undefined,
+    enforceCodeOnly: true,
+    useSentinel: true,
+  });
 
-  const finishReason: GeminiFinishReason = candidate.finishReason;
-  if (finishReason && finishReason !== "STOP" && finishReason !== "MAX_TOKENS") {
-    throw new Error(`生成が完了しませんでした。finishReason=${finishReason}`);
+  let raws: string[];
+  if (provider.completeCandidates) {
+    raws = await scheduler.completeCandidates(provider, { prompt, temperature: CANDIDATE_TEMPERATURE, maxOutputTokens: 2048, candidateCount: count }, timeoutMs);
+  } else {
+    const temperatures = Array.from({ length: count }, (_, i) => count > 1 ? (CANDIDATE_MAX_TEMPERATURE * i) / (count - 1) : 0);
+    let firstError: unknown = null;
+    const results = await Promise.all(temperatures.map(temperature =>
+      scheduler.complete(provider, { prompt, temperature, maxOutputTokens: 2048 }, timeoutMs).catch((e) => {
+        firstError ??= e;
+        return null;
+      })));
+    raws = results.filter((r): r is string => r !== null);
+    // 一部の失敗は残りの候補で続け、すべて失敗したときだけエラーにする
+    if (raws.length === 0) throw firstError;
   }
 
-  // ここでは「空でも」エラーにしない。センチネル抽出後に判断する。
-  const out = (candidate?.content?.parts ?? []).map((p: any) => p?.text ?? "").join("");
-  return out; // 生テキスト
+  const candidates = raws.map(raw => sanitizeMermaidOutput(extractFromSentinel(raw))).filter(c => c !== "");
+  if (candidates.length === 0) throw new Error(`${provider.label}が有効な修正案を返しませんでした（空出力）。`);
+  return candidates.filter((c, i) => candidates.indexOf(c) === i);
 }
 
-const fixMemo = new Map<string, string>();
-
-/** 公開API（新）：単発のみ。versionは既定 'v1beta'。 */
-export async function geminiFixSingle(
-  apiKey: string,
-  model: string,
+/** 公開API：任意のプロバイダで単発修正。センチネル抽出・正規化はプロバイダ非依存。 */
+export async function llmFixSingle(
+  provider: LlmProvider,
   original: string,
   errorMsg: string,
   timeoutMs: number,
-  apiVersion: "v1" | "v1beta" = "v1beta"
+  cache?: FixCache,
+  scheduler?: LlmScheduler
 ): Promise<string> {
   const diagram = inferDiagramType(original);
 
   // 事前正規化（<br/>→\\n, ラベル引用符化 等）
   const pre = preNormalizeMermaid(original);
-  const key = `${apiVersion}::${model}::${diagram ?? "unknown"}::${pre}::${errorMsg || ""}`;
-  const memo = fixMemo.get(key);
+  const key = fixCacheKey(provider, original, errorMsg);
+  const memo = cache ? cache.get(key) : fixMemo.get(key);
   if (memo) return memo;
 
   const prompt = buildGeminiPromptV2(pre, errorMsg, {
@@ -308,22 +306,14 @@ export async function geminiFixSingle(
     useSentinel: true,
   });
 
-  const body = {
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-    generationConfig: {
-      temperature: 0,
-      topP: 1.0,
-      maxOutputTokens: 2048,
-      candidateCount: 1
-    }
-  };
-
-  const controller = new AbortController();
-  const raw = await withTimeout(
-    callGeminiSingle(apiKey, model, apiVersion, body, controller.signal),
-    timeoutMs,
-    controller
-  );
+  const request = { prompt, temperature: 0, maxOutputTokens: 2048 };
+  let raw: string;
+  if (scheduler) {
+    raw = await scheduler.complete(provider, request, timeoutMs);
+  } else {
+    const controller = new AbortController();
+    raw = await withTimeout(provider.complete(request, controller.signal), timeoutMs, controller);
+  }
 
   // センチネル抽出 → フェンス除去/正規化
   const middle = extractFromSentinel(raw);
@@ -332,17 +322,32 @@ export async function geminiFixSingle(
   if (!result) {
     // LLMが空を返した場合でも、preNormalizeの結果を返すと実利があるケースが多い
     if (pre && pre !== original) {
-      fixMemo.set(key, pre);
+      if (!cache) fixMemo.set(key, pre);
       return pre;
     }
-    throw new Error("Geminiが有効な修正案を返しませんでした（空出力）。");
+    throw new Error(`${provider.label}が有効な修正案を返しませんでした（空出力）。`);
   }
 
-  fixMemo.set(key, result);
+  if (!cache) fixMemo.set(key, result);
   return result;
 }
 
-/** 後方互換：内部で単発実行へ委譲（累積リトライは行わない） */
+/** 公開API：Gemini 固定の単発実行。versionは既定 'v1beta'。 */
+export async function geminiFixSingle(
+  apiKey: string,
+  model: string,
+  original: string,
+  errorMsg: string,
+  timeoutMs: number,
+  apiVersion: "v1" | "v1beta" = "v1beta"
+): Promise<string> {
+  return llmFixSingle(new GeminiProvider(apiKey, model, apiVersion), original, errorMsg, timeoutMs);
+}
+
+// geminiFixWithBackoff 用。レート制限は呼び出し側の設定を知らないので掛けず、再試行だけ行う
+const backoffScheduler = new LlmScheduler(() => ({ requestsPerMinute: 0, concurrency: 1, maxRetries: 3 }));
+
+/** 後方互換：429・5xx・タイムアウトは指数バックオフ（Retry-After を優先）で再試行する */
 export async function geminiFixWithBackoff(
   apiKey: string,
   model: string,
@@ -350,7 +355,7 @@ export async function geminiFixWithBackoff(
   errorMsg: string,
   timeoutMs: number
 ): Promise<string> {
-  return geminiFixSingle(apiKey, model, original, errorMsg, timeoutMs, "v1beta");
+  return llmFixSingle(new GeminiProvider(apiKey, model, "v1beta"), original, errorMsg, timeoutMs, undefined, backoffScheduler);
 }
 
 /** originalにinitがある場合、fixedへ再付与（fixed側に既にinitがあれば無変更） */
@@ -0,0 +1,320 @@
+// ズームビューアのポインタ・タッチ・トラックパッド操作
+import { clamp } from "./utils";
+
+export type PanZoomState = { zoom: number; panX: number; panY: number };
+
+export type PanZoomTarget = {
+  get(): PanZoomState;
+  /** 状態を反映して再描画する */
+  set(state: PanZoomState): void;
+  /** 全体表示にしたときの状態（適用はしない） */
+  fit(): PanZoomState;
+};
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP = 25;
+const TAP_SLOP = 6;
+const INERTIA_FRICTION = 0.92;
+const INERTIA_MIN_SPEED = 0.02; // px/ms
+
+/** (x, y) の点が画面上で動かないようにズームする */
+export function zoomAround(state: PanZoomState, next: number, x: number, y: number): PanZoomState {
+  const zoom = clamp(next, MIN_ZOOM, MAX_ZOOM);
+  return {
+    zoom,
+    panX: x - ((x - state.panX) / state.zoom) * zoom,
+    panY: y - ((y - state.panY) / state.zoom) * zoom,
+  };
+}
+
+export type Size = { width: number; height: number };
+export type Rect = { x: number; y: number; width: number; height: number };
+export type FitMode = "screen" | "width" | "height";
+
+/**
+ * 図全体（diagram）を表示領域（view）に合わせる状態を返す。
+ * 幅・高さ合わせで図がはみ出す方向は先頭（上端・左端）を揃える。
+ */
+export function fitState(view: Size, diagram: Size, mode: FitMode, margin = 0.95): PanZoomState {
+  const w = diagram.width || 1, h = diagram.height || 1;
+  const byWidth = view.width / w, byHeight = view.height / h;
+  const raw = mode === "width" ? byWidth : mode === "height" ? byHeight : Math.min(byWidth, byHeight);
+  const zoom = clamp(raw * margin, MIN_ZOOM, MAX_ZOOM);
+  const align = (viewLen: number, len: number) => {
+    const scaled = len * zoom;
+    return scaled <= viewLen ? (viewLen - scaled) / 2 : (viewLen * (1 - margin)) / 2;
+  };
+  return { zoom, panX: align(view.width, w), panY: align(view.height, h) };
+}
+
+/** 表示領域上の矩形 rect が画面いっぱいになる状態を返す */
+export function zoomToRect(state: PanZoomState, view: Size, rect: Rect): PanZoomState {
+  const x = (rect.x - state.panX) / state.zoom, y = (rect.y - state.panY) / state.zoom;
+  const w = Math.max(rect.width / state.zoom, 1e-3), h = Math.max(rect.height / state.zoom, 1e-3);
+  const zoom = clamp(Math.min(view.width / w, view.height / h), MIN_ZOOM, MAX_ZOOM);
+  return {
+    zoom,
+    panX: view.width / 2 - (x + w / 2) * zoom,
+    panY: view.height / 2 - (y + h / 2) * zoom,
+  };
+}
+
+/** ホイールイベントがマウスホイール由来か（トラックパッドの2本指スクロールはパンとして扱う） */
+function isMouseWheel(e: WheelEvent): boolean {
+  if (e.deltaMode !== WheelEvent.DOM_DELTA_PIXEL) return true;
+  return e.deltaX === 0 && Number.isInteger(e.deltaY) && Math.abs(e.deltaY) >= 50;
+}
+
+/**
+ * el 上のパン・ズーム操作を target に反映する。戻り値で解除する。
+ * - ポインタ1本: ドラッグでパン（離したときに慣性）
+ * - ポインタ2本: ピンチ中心を基準にズーム＋パン
+ * - ダブルタップ / ダブルクリック: 拡大、拡大済みなら全体表示
+ * - ctrl+ホイール（トラックパッドのピンチ）: 連続ズーム、マウスホイール: 段階ズーム、2本指スクロール: パン
+ */
+export function attachPanZoomGestures(el: HTMLElement, target: PanZoomTarget): () => void {
+  const pointers = new Map<number, { x: number; y: number }>();
+  let pinchStart: { dist: number; cx: number; cy: number; state: PanZoomState } | null = null;
+  let velocity = { x: 0, y: 0 };
+  let lastMoveAt = 0;
+  let inertiaFrame = 0;
+  let lastTap: { at: number; x: number; y: number } | null = null;
+  let downAt: { x: number; y: number } | null = null;
+  let safariGestureStart: PanZoomState | null = null;
+  let gestureTimer = 0;
+
+  // 連続操作中は CSS のトランジションを切って追従を遅らせない（ダブルタップ等の単発操作はアニメーションさせる）
+  const follow = (state: PanZoomState) => {
+    el.classList.add("is-gesturing");
+    window.clearTimeout(gestureTimer);
+    gestureTimer = window.setTimeout(() => el.classList.remove("is-gesturing"), 150);
+    target.set(state);
+  };
+
+  const local = (clientX: number, clientY: number) => {
+    const rect = el.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const stopInertia = () => {
+    if (inertiaFrame) cancelAnimationFrame(inertiaFrame);
+    inertiaFrame = 0;
+  };
+
+  const startInertia = () => {
+    let last = performance.now();
+    const step = (now: number) => {
+      const dt = Math.min(now - last, 32);
+      last = now;
+      velocity = { x: velocity.x * INERTIA_FRICTION, y: velocity.y * INERTIA_FRICTION };
+      if (Math.hypot(velocity.x, velocity.y) < INERTIA_MIN_SPEED) { inertiaFrame = 0; return; }
+      const s = target.get();
+      follow({ ...s, panX: s.panX + velocity.x * dt, panY: s.panY + velocity.y * dt });
+      inertiaFrame = requestAnimationFrame(step);
+    };
+    inertiaFrame = requestAnimationFrame(step);
+  };
+
+  const pinchInfo = () => {
+    const [a, b] = [...pointers.values()];
+    const p = local((a.x + b.x) / 2, (a.y + b.y) / 2);
+    return { dist: Math.hypot(a.x - b.x, a.y - b.y) || 1, cx: p.x, cy: p.y };
+  };
+
+  const toggleZoomAt = (x: number, y: number) => {
+    const s = target.get();
+    const fitted = target.fit();
+    target.set(s.zoom > fitted.zoom * 1.05 ? fitted : zoomAround(s, s.zoom * 2, x, y));
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    // リンクのクリックは妨げない
+    if ((e.target as HTMLElement)?.closest("a")) return;
+    stopInertia();
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    el.setPointerCapture?.(e.pointerId);
+    el.classList.add("grabbing");
+    velocity = { x: 0, y: 0 };
+    lastMoveAt = e.timeStamp;
+    if (pointers.size === 1) downAt = { x: e.clientX, y: e.clientY };
+    if (pointers.size === 2) {
+      downAt = null;
+      pinchStart = { ...pinchInfo(), state: target.get() };
+    }
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    const prev = pointers.get(e.pointerId);
+    if (!prev) return;
+    e.preventDefault();
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size >= 2 && pinchStart) {
+      const now = pinchInfo();
+      // 開始時の状態から、ピンチ中心の移動分だけパンし、距離比でズーム
+      const moved = { ...pinchStart.state, panX: pinchStart.state.panX + now.cx - pinchStart.cx, panY: pinchStart.state.panY + now.cy - pinchStart.cy };
+      follow(zoomAround(moved, pinchStart.state.zoom * (now.dist / pinchStart.dist), now.cx, now.cy));
+      return;
+    }
+
+    const dx = e.clientX - prev.x, dy = e.clientY - prev.y;
+    const dt = Math.max(e.timeStamp - lastMoveAt, 1);
+    lastMoveAt = e.timeStamp;
+    // 直近の速度を重み付きで平均し、離した瞬間のブレを抑える
+    velocity = { x: velocity.x * 0.2 + (dx / dt) * 0.8, y: velocity.y * 0.2 + (dy / dt) * 0.8 };
+    const s = target.get();
+    follow({ ...s, panX: s.panX + dx, panY: s.panY + dy });
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pointers.has(e.pointerId)) return;
+    pointers.delete(e.pointerId);
+    if (pointers.size >= 2) { pinchStart = { ...pinchInfo(), state: target.get() }; return; }
+    pinchStart = null;
+    if (pointers.size === 1) {
+      // ピンチから1本指に戻ったら速度をリセットしてパンを継続
+      velocity = { x: 0, y: 0 };
+      return;
+    }
+    el.classList.remove("grabbing");
+
+    const isTap = downAt && Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y) < TAP_SLOP;
+    downAt = null;
+    if (isTap) {
+      // マウスは dblclick で処理する
+      if (e.pointerType !== "mouse") {
+        if (lastTap && e.timeStamp - lastTap.at < DOUBLE_TAP_MS && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_SLOP) {
+          lastTap = null;
+          const p = local(e.clientX, e.clientY);
+          toggleZoomAt(p.x, p.y);
+        } else {
+          lastTap = { at: e.timeStamp, x: e.clientX, y: e.clientY };
+        }
+      }
+      return;
+    }
+    if (e.type === "pointerup" && e.timeStamp - lastMoveAt < 50) startInertia();
+  };
+
+  const onDoubleClick = (e: MouseEvent) => {
+    if ((e.target as HTMLElement)?.closest("a")) return;
+    e.preventDefault();
+    const p = local(e.clientX, e.clientY);
+    toggleZoomAt(p.x, p.y);
+  };
+
+  const onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    stopInertia();
+    const s = target.get();
+    const p = local(e.clientX, e.clientY);
+    if (e.ctrlKey) {
+      // トラックパッドのピンチは ctrl+wheel として届く。細かい delta に比例して連続ズーム
+      follow(zoomAround(s, s.zoom * Math.exp(-e.deltaY * 0.01), p.x, p.y));
+    } else if (isMouseWheel(e)) {
+      target.set(zoomAround(s, s.zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2), p.x, p.y)); // 乗算型ズーム
+    } else {
+      follow({ ...s, panX: s.panX - e.deltaX, panY: s.panY - e.deltaY });
+    }
+  };
+
+  // Safari（iPad のトラックパッド等）は ctrl+wheel ではなく gesture* イベントでピンチを通知する
+  const onGestureStart = (e: Event) => { e.preventDefault(); safariGestureStart = target.get(); };
+  const onGestureChange = (e: Event) => {
+    e.preventDefault();
+    const g = e as Event & { scale?: number; clientX?: number; clientY?: number };
+    if (!safariGestureStart || !g.scale) return;
+    const rect = el.getBoundingClientRect();
+    const p = g.clientX !== undefined && g.clientY !== undefined ? local(g.clientX, g.clientY) : { x: rect.width / 2, y: rect.height / 2 };
+    follow(zoomAround(safariGestureStart, safariGestureStart.zoom * g.scale, p.x, p.y));
+  };
+  const onGestureEnd = (e: Event) => { e.preventDefault(); safariGestureStart = null; };
+
+  el.addEventListener("pointerdown", onPointerDown);
+  el.addEventListener("pointermove", onPointerMove);
+  el.addEventListener("pointerup", onPointerUp);
+  el.addEventListener("pointercancel", onPointerUp);
+  el.addEventListener("dblclick", onDoubleClick);
+  el.addEventListener("wheel", onWheel, { passive: false });
+  el.addEventListener("gesturestart", onGestureStart);
+  el.addEventListener("gesturechange", onGestureChange);
+  el.addEventListener("gestureend", onGestureEnd);
+
+  return () => {
+    stopInertia();
+    window.clearTimeout(gestureTimer);
+    el.removeEventListener("pointerdown", onPointerDown);
+    el.removeEventListener("pointermove", onPointerMove);
+    el.removeEventListener("pointerup", onPointerUp);
+    el.removeEventListener("pointercancel", onPointerUp);
+    el.removeEventListener("dblclick", onDoubleClick);
+    el.removeEventListener("wheel", onWheel);
+    el.removeEventListener("gesturestart", onGestureStart);
+    el.removeEventListener("gesturechange", onGestureChange);
+    el.removeEventListener("gestureend", onGestureEnd);
+  };
+}
+
+/**
+ * shouldStart が真のドラッグで矩形を描き、離したときに onSelect へ渡す（範囲ズーム用）。
+ * パン操作より先に処理するためキャプチャ段階で登録する。
+ */
+export function attachRubberBand(el: HTMLElement, shouldStart: (e: PointerEvent) => boolean, onSelect: (rect: Rect) => void): () => void {
+  let start: { x: number; y: number; id: number } | null = null;
+  let box: HTMLElement | null = null;
+
+  const local = (e: PointerEvent) => {
+    const r = el.getBoundingClientRect();
+    return { x: e.clientX - r.left, y: e.clientY - r.top };
+  };
+  const rectTo = (e: PointerEvent): Rect => {
+    const p = local(e);
+    return {
+      x: Math.min(start!.x, p.x),
+      y: Math.min(start!.y, p.y),
+      width: Math.abs(p.x - start!.x),
+      height: Math.abs(p.y - start!.y),
+    };
+  };
+
+  const onDown = (e: PointerEvent) => {
+    if (start || !shouldStart(e)) return;
+    e.stopPropagation();
+    e.preventDefault();
+    start = { ...local(e), id: e.pointerId };
+    el.setPointerCapture?.(e.pointerId);
+    box = el.createDiv({ cls: "mermaid-zoom-selection" });
+  };
+  const onMove = (e: PointerEvent) => {
+    if (!start || e.pointerId !== start.id || !box) return;
+    e.stopPropagation();
+    const r = rectTo(e);
+    Object.assign(box.style, { left: `${r.x}px`, top: `${r.y}px`, width: `${r.width}px`, height: `${r.height}px` });
+  };
+  const onUp = (e: PointerEvent) => {
+    if (!start || e.pointerId !== start.id) return;
+    e.stopPropagation();
+    const r = rectTo(e);
+    box?.remove();
+    box = null;
+    start = null;
+    // 小さすぎる矩形はクリックとみなす
+    if (e.type === "pointerup" && r.width > 8 && r.height > 8) onSelect(r);
+  };
+
+  el.addEventListener("pointerdown", onDown, { capture: true });
+  el.addEventListener("pointermove", onMove, { capture: true });
+  el.addEventListener("pointerup", onUp, { capture: true });
+  el.addEventListener("pointercancel", onUp, { capture: true });
+  return () => {
+    box?.remove();
+    el.removeEventListener("pointerdown", onDown, { capture: true });
+    el.removeEventListener("pointermove", onMove, { capture: true });
+    el.removeEventListener("pointerup", onUp, { capture: true });
+    el.removeEventListener("pointercancel", onUp, { capture: true });
+  };
+}
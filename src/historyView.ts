@@ -0,0 +1,98 @@
+// LLM 修正の履歴を一覧表示するサイドペイン
+import { ItemView, WorkspaceLeaf, moment } from "obsidian";
+import { FixHistoryEntry } from "./types";
+import { FixHistoryStore } from "./fixHistory";
+import { calculateDiff } from "./utils";
+
+export const VIEW_TYPE_MERMAID_FIX_HISTORY = "mermaid-fix-history";
+
+/** 再適用・ファイルを開く処理は plugin 側で実装する */
+export interface FixHistoryHost {
+  store: FixHistoryStore;
+  reapply(entry: FixHistoryEntry): Promise<void>;
+  openFile(path: string): Promise<void>;
+}
+
+export class MermaidFixHistoryView extends ItemView {
+  private filter = "";
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, private host: FixHistoryHost) {
+    super(leaf);
+  }
+
+  getViewType(): string { return VIEW_TYPE_MERMAID_FIX_HISTORY; }
+  getDisplayText(): string { return "Mermaid 修正履歴"; }
+  getIcon(): string { return "history"; }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.host.store.subscribe(() => this.renderList());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const root = this.contentEl;
+    root.empty();
+    root.addClass("mermaid-history-view");
+    const search = root.createEl("input", { cls: "mermaid-history-search", type: "search", placeholder: "ファイル名・エラーで絞り込み" });
+    search.value = this.filter;
+    search.addEventListener("input", () => {
+      this.filter = search.value;
+      this.renderList();
+    });
+    root.createDiv({ cls: "mermaid-history-list" });
+    this.renderList();
+  }
+
+  private renderList(): void {
+    const list = this.contentEl.querySelector<HTMLElement>(".mermaid-history-list");
+    if (!list) return;
+    list.empty();
+    const query = this.filter.trim().toLowerCase();
+    const entries = this.host.store.list()
+      .filter(e => !query || e.path.toLowerCase().includes(query) || e.error.toLowerCase().includes(query));
+    if (entries.length === 0) {
+      list.createDiv({ cls: "mermaid-history-empty", text: query ? "一致する履歴はありません。" : "修正履歴はまだありません。" });
+      return;
+    }
+    entries.forEach(entry => this.renderEntry(list, entry));
+  }
+
+  private renderEntry(list: HTMLElement, entry: FixHistoryEntry): void {
+    const item = list.createDiv({ cls: "mermaid-history-item" });
+    const head = item.createDiv({ cls: "mermaid-history-head" });
+    head.createSpan({ cls: "mermaid-history-date", text: moment(entry.createdAt).format("YYYY-MM-DD HH:mm") });
+    const fileLink = head.createEl("a", { cls: "mermaid-history-file", text: `${entry.path} #${entry.blockIndex + 1}` });
+    fileLink.addEventListener("click", (evt) => {
+      evt.preventDefault();
+      void this.host.openFile(entry.path);
+    });
+    item.createDiv({
+      cls: "mermaid-history-meta",
+      text: `${entry.provider}（${entry.model}）・${entry.diagramType ?? "不明な図"}・試行 ${entry.attempts} 回`,
+    });
+    item.createEl("pre", { cls: "mermaid-history-error", text: entry.error });
+
+    const details = item.createEl("details", { cls: "mermaid-history-details" });
+    details.createEl("summary", { text: "修正前後の差分" });
+    const diff = details.createDiv({ cls: "mermaid-fix-diff" });
+    for (const line of calculateDiff(entry.original, entry.fixed)) {
+      diff.createDiv({
+        cls: `mermaid-fix-diff-line ${line.type}`,
+        text: `${line.type === "added" ? "+" : line.type === "removed" ? "-" : " "} ${line.content}`,
+      });
+    }
+
+    const actions = item.createDiv({ cls: "mermaid-history-actions" });
+    const reapply = actions.createEl("button", { text: "再適用" });
+    reapply.addEventListener("click", () => { void this.host.reapply(entry); });
+    const remove = actions.createEl("button", { text: "キャッシュから削除" });
+    remove.addEventListener("click", () => { void this.host.store.remove(entry.id); });
+  }
+}
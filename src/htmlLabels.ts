@@ -0,0 +1,219 @@
+// foreignObject（HTMLラベル）を SVG の text / tspan に変換する
+// 描画済みのラベルを文字単位で測り、折り返し・改行・太字/斜体・リンク・アイコンを位置ごと写し取る
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+type Run = {
+  text: string;
+  left: number;
+  top: number;
+  height: number;
+  style: CSSStyleDeclaration;
+  href: string | null;
+  decoration: string;
+};
+
+type Frame = { x: number; y: number; left: number; top: number; scale: number };
+
+const ascentCache = new Map<string, number>();
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+/** フォントのアセント ÷（アセント＋ディセント）。Range の矩形の上端からベースラインを求めるのに使う */
+function ascentRatio(style: CSSStyleDeclaration): number {
+  const font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+  const cached = ascentCache.get(font);
+  if (cached !== undefined) return cached;
+  measureCtx ??= document.createElement("canvas").getContext("2d");
+  let ratio = 0.8;
+  if (measureCtx) {
+    measureCtx.font = font;
+    const m = measureCtx.measureText("Mg");
+    const total = m.fontBoundingBoxAscent + m.fontBoundingBoxDescent;
+    if (total > 0) ratio = m.fontBoundingBoxAscent / total;
+  }
+  ascentCache.set(font, ratio);
+  return ratio;
+}
+
+/** 祖先に付いた下線・取り消し線（text-decoration は継承されないので遡って探す） */
+function decorationOf(el: Element, root: Element): string {
+  for (let cur: Element | null = el; cur && cur !== root; cur = cur.parentElement) {
+    const line = getComputedStyle(cur).textDecorationLine;
+    if (line && line !== "none") return line;
+  }
+  return "none";
+}
+
+function linkOf(el: Element, root: Element): string | null {
+  const a = el.closest("a");
+  if (!a || !root.contains(a)) return null;
+  return a.getAttribute("data-href") || a.getAttribute("href");
+}
+
+/** ::before で描くアイコン（Font Awesome 等）の文字 */
+function pseudoContent(el: Element): { text: string; style: CSSStyleDeclaration } | null {
+  const style = getComputedStyle(el, "::before");
+  const content = style.content;
+  if (!content || content === "none" || content === "normal") return null;
+  const text = content.replace(/^["']|["']$/g, "");
+  return text ? { text, style } : null;
+}
+
+/** テキストノードを1文字ずつ測り、同じ行に並ぶ文字をひとまとまりにする */
+function collectTextRuns(node: Text, root: Element, runs: Run[]): void {
+  const parent = node.parentElement;
+  if (!parent) return;
+  const style = getComputedStyle(parent);
+  const href = linkOf(parent, root);
+  const decoration = decorationOf(parent, root);
+  const data = node.data;
+  const range = document.createRange();
+  let run: Run | null = null;
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i);
+    const end = code >= 0xd800 && code <= 0xdbff && i + 1 < data.length ? i + 2 : i + 1;
+    const ch = data.slice(i, end);
+    range.setStart(node, i);
+    range.setEnd(node, end);
+    i = end - 1;
+    const rect = range.getClientRects()[0];
+    // 畳まれた空白は矩形を持たない
+    if (!rect || (rect.width === 0 && /\s/.test(ch))) continue;
+    if (run && Math.abs(rect.top - run.top) < rect.height / 2) {
+      run.text += /\s/.test(ch) ? " " : ch;
+      continue;
+    }
+    // 行頭の空白は位置がずれるだけなので捨てる
+    if (/\s/.test(ch)) { run = null; continue; }
+    run = { text: ch, left: rect.left, top: rect.top, height: rect.height, style, href, decoration };
+    runs.push(run);
+  }
+}
+
+function createTspan(run: Run, frame: Frame): SVGTSpanElement {
+  const tspan = document.createElementNS(SVG_NS, "tspan");
+  const height = run.height / frame.scale;
+  tspan.setAttribute("x", (frame.x + (run.left - frame.left) / frame.scale).toFixed(2));
+  tspan.setAttribute("y", (frame.y + (run.top - frame.top) / frame.scale + height * ascentRatio(run.style)).toFixed(2));
+  const s = run.style;
+  tspan.style.setProperty("font-family", s.fontFamily);
+  tspan.style.setProperty("font-size", s.fontSize);
+  if (s.fontWeight !== "400" && s.fontWeight !== "normal") tspan.style.setProperty("font-weight", s.fontWeight);
+  if (s.fontStyle !== "normal") tspan.style.setProperty("font-style", s.fontStyle);
+  if (run.decoration !== "none") tspan.style.setProperty("text-decoration", run.decoration);
+  tspan.style.setProperty("fill", s.color);
+  tspan.textContent = run.text.replace(/\s+$/, "");
+  return tspan;
+}
+
+/** 測れない（非表示・未接続の）ラベルは <br> とブロック要素だけで行に分ける */
+function labelLines(el: Element): string[] {
+  const lines: string[] = [""];
+  const walk = (node: Node) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) { lines[lines.length - 1] += child.textContent ?? ""; return; }
+      if (!(child instanceof Element)) return;
+      if (child.tagName.toLowerCase() === "br") { lines.push(""); return; }
+      const block = /^(div|p|li)$/i.test(child.tagName);
+      if (block && lines[lines.length - 1].trim()) lines.push("");
+      walk(child);
+      if (block) lines.push("");
+    });
+  };
+  walk(el);
+  return lines.map(l => l.replace(/\s+/g, " ").trim()).filter(Boolean);
+}
+
+function fallbackText(src: SVGForeignObjectElement, x: number, y: number, w: number, h: number): SVGTextElement | null {
+  const lines = labelLines(src);
+  if (lines.length === 0) return null;
+  const text = document.createElementNS(SVG_NS, "text");
+  text.setAttribute("text-anchor", "middle");
+  text.style.setProperty("text-anchor", "middle");
+  const lineHeight = 1.2;
+  lines.forEach((line, i) => {
+    const tspan = document.createElementNS(SVG_NS, "tspan");
+    tspan.setAttribute("x", (x + w / 2).toString());
+    // 行の塊を縦方向の中央に置く（0.35em はおおよそのベースライン補正）
+    tspan.setAttribute("y", (y + h / 2).toString());
+    tspan.setAttribute("dy", `${((i - (lines.length - 1) / 2) * lineHeight + 0.35).toFixed(2)}em`);
+    tspan.textContent = line;
+    text.appendChild(tspan);
+  });
+  return text;
+}
+
+/**
+ * 描画済みの src を測り、複製側の dst を同じ見た目の text（と画像）に置き換える。
+ * src は DOM に接続され表示されている必要がある（されていなければ行分割だけ保つ）。
+ */
+export function convertHtmlLabel(src: SVGForeignObjectElement, dst: Element): void {
+  const x = parseFloat(src.getAttribute("x") ?? "0") || 0;
+  const y = parseFloat(src.getAttribute("y") ?? "0") || 0;
+  const w = parseFloat(src.getAttribute("width") ?? "0") || 0;
+  const h = parseFloat(src.getAttribute("height") ?? "0") || 0;
+  const rect = src.getBoundingClientRect();
+  const parent = dst.parentNode;
+  if (!parent) return;
+
+  if (!src.isConnected || rect.width === 0 || w === 0) {
+    const text = fallbackText(src, x, y, w, h);
+    if (text) parent.replaceChild(text, dst);
+    else parent.removeChild(dst);
+    return;
+  }
+
+  const frame: Frame = { x, y, left: rect.left, top: rect.top, scale: rect.width / w };
+  const runs: Run[] = [];
+  // 背景（エッジラベルの地色など）と画像。文字より先に描く
+  const shapes: SVGElement[] = [];
+  const place = (el: SVGElement, r: DOMRect) => {
+    el.setAttribute("x", (x + (r.left - frame.left) / frame.scale).toFixed(2));
+    el.setAttribute("y", (y + (r.top - frame.top) / frame.scale).toFixed(2));
+    el.setAttribute("width", (r.width / frame.scale).toFixed(2));
+    el.setAttribute("height", (r.height / frame.scale).toFixed(2));
+    shapes.push(el);
+  };
+  const walker = document.createTreeWalker(src, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) { collectTextRuns(node as Text, src, runs); continue; }
+    const el = node as Element;
+    const r = el.getBoundingClientRect();
+    if (r.width === 0 || r.height === 0) continue;
+    const background = getComputedStyle(el).backgroundColor;
+    if (background && background !== "transparent" && background !== "rgba(0, 0, 0, 0)") {
+      const bg = document.createElementNS(SVG_NS, "rect");
+      bg.style.setProperty("fill", background);
+      place(bg, r);
+    }
+    if (el.tagName.toLowerCase() === "img") {
+      const image = document.createElementNS(SVG_NS, "image");
+      image.setAttribute("href", (el as HTMLImageElement).src);
+      place(image, r);
+      continue;
+    }
+    const icon = el.childNodes.length === 0 ? pseudoContent(el) : null;
+    if (icon) {
+      runs.push({ text: icon.text, left: r.left, top: r.top, height: r.height, style: icon.style, href: linkOf(el, src), decoration: "none" });
+    }
+  }
+
+  const text = document.createElementNS(SVG_NS, "text");
+  // 各 tspan が左端の座標を持つので、Mermaid の CSS（text-anchor: middle 等）を打ち消す
+  text.setAttribute("text-anchor", "start");
+  text.style.setProperty("text-anchor", "start");
+  text.style.setProperty("dominant-baseline", "alphabetic");
+  for (const run of runs) {
+    const tspan = createTspan(run, frame);
+    if (!run.href) { text.appendChild(tspan); continue; }
+    const a = document.createElementNS(SVG_NS, "a");
+    a.setAttribute("href", run.href);
+    a.setAttributeNS("http://www.w3.org/1999/xlink", "xlink:href", run.href);
+    a.appendChild(tspan);
+    text.appendChild(a);
+  }
+
+  const group = document.createElementNS(SVG_NS, "g");
+  shapes.forEach(shape => group.appendChild(shape));
+  if (runs.length > 0) group.appendChild(text);
+  parent.replaceChild(group, dst);
+}
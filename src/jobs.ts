@@ -0,0 +1,173 @@
+// 全ファイル系コマンドのバックグラウンドジョブ（進捗表示・一時停止・中断）
+import { App, TFile, getAllTags, setIcon } from "obsidian";
+import { JobScope, JobSummary } from "./types";
+import { sleep } from "./utils";
+
+export type JobState = "running" | "paused" | "cancelled" | "finished";
+
+/** 1回分のジョブの状態。ワーカーはファイルごとに checkpoint() を呼ぶ */
+export class Job {
+  state: JobState = "running";
+  done = 0;
+  errors = 0;
+  readonly startedAt = Date.now();
+  private resumeWaiters: (() => void)[] = [];
+  private listeners: (() => void)[] = [];
+
+  constructor(readonly name: string, readonly total: number) {}
+
+  get cancelled(): boolean { return this.state === "cancelled"; }
+
+  pause(): void {
+    if (this.state !== "running") return;
+    this.state = "paused";
+    this.emit();
+  }
+
+  resume(): void {
+    if (this.state !== "paused") return;
+    this.state = "running";
+    this.flushWaiters();
+    this.emit();
+  }
+
+  cancel(): void {
+    if (this.state === "finished" || this.state === "cancelled") return;
+    this.state = "cancelled";
+    this.flushWaiters();
+    this.emit();
+  }
+
+  /** 一時停止中は再開まで待つ。中断されていれば false */
+  async checkpoint(): Promise<boolean> {
+    // UI スレッドを占有しないよう毎回譲る
+    await sleep(0);
+    while (this.state === "paused") {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    }
+    return this.state === "running";
+  }
+
+  advance(errors = 0): void {
+    this.done++;
+    this.errors += errors;
+    this.emit();
+  }
+
+  addErrors(n: number): void {
+    this.errors += n;
+    this.emit();
+  }
+
+  onChange(fn: () => void): void {
+    this.listeners.push(fn);
+  }
+
+  finish(): void {
+    if (this.state !== "cancelled") this.state = "finished";
+    this.flushWaiters();
+    this.emit();
+  }
+
+  private flushWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(w => w());
+  }
+
+  private emit(): void {
+    this.listeners.forEach(fn => fn());
+  }
+}
+
+/** ステータスバーに進捗と操作ボタンを表示しながらジョブを実行する（同時実行は1件まで） */
+export class JobRunner {
+  private current: Job | null = null;
+
+  constructor(private statusEl: HTMLElement) {
+    this.statusEl.addClass("mermaid-job-status");
+    this.statusEl.hide();
+  }
+
+  get busy(): boolean { return this.current !== null; }
+
+  cancelCurrent(): void {
+    this.current?.cancel();
+  }
+
+  /** worker の戻り値はそのファイルで見つかったエラー数。concurrency 件までのファイルを並行して処理する */
+  async run(name: string, files: TFile[], worker: (file: TFile, job: Job) => Promise<number>, concurrency = 1): Promise<JobSummary> {
+    if (this.current) throw new Error(`別のジョブ（${this.current.name}）が実行中です。`);
+    const job = new Job(name, files.length);
+    this.current = job;
+    job.onChange(() => this.render(job));
+    this.render(job);
+    this.statusEl.show();
+
+    try {
+      // 各レーンが未処理のファイルを先頭から順に取っていく
+      let next = 0;
+      const lane = async () => {
+        for (;;) {
+          if (!(await job.checkpoint()) || next >= files.length) return;
+          const file = files[next++];
+          let errors = 0;
+          try {
+            errors = await worker(file, job);
+          } catch (e) {
+            console.error(`ジョブ処理エラー: ${file.path}`, e);
+          }
+          job.advance(errors);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, files.length)) }, lane));
+    } finally {
+      job.finish();
+      this.current = null;
+      this.statusEl.hide();
+    }
+
+    return {
+      name,
+      total: job.total,
+      done: job.done,
+      errors: job.errors,
+      cancelled: job.cancelled,
+      elapsedMs: Date.now() - job.startedAt,
+      details: [],
+    };
+  }
+
+  private render(job: Job): void {
+    const el = this.statusEl;
+    el.empty();
+    const label = job.state === "paused" ? "一時停止中" : job.state === "cancelled" ? "中断中" : "実行中";
+    el.createSpan({ cls: "mermaid-job-label", text: `${job.name}: ${label} ${job.done}/${job.total}（エラー ${job.errors}）` });
+
+    const button = (icon: string, title: string, onClick: () => void) => {
+      const b = el.createSpan({ cls: "mermaid-job-button", attr: { "aria-label": title, role: "button" } });
+      setIcon(b, icon);
+      b.addEventListener("click", (e) => { e.stopPropagation(); onClick(); });
+    };
+    if (job.state === "running") button("pause", "一時停止", () => job.pause());
+    if (job.state === "paused") button("play", "再開", () => job.resume());
+    if (job.state !== "cancelled") button("x", "中断", () => job.cancel());
+  }
+}
+
+/** スコープ条件（フォルダ・タグ・更新日時）でファイルを絞り込む */
+export function filterFilesByScope(app: App, files: TFile[], scope: JobScope): TFile[] {
+  const folder = scope.folder?.replace(/^\/+|\/+$/g, "") ?? "";
+  const tag = scope.tag ? (scope.tag.startsWith("#") ? scope.tag : `#${scope.tag}`).toLowerCase() : "";
+  return files.filter((f) => {
+    if (folder && !(f.path === folder || f.path.startsWith(`${folder}/`))) return false;
+    if (scope.modifiedSince && f.stat.mtime < scope.modifiedSince) return false;
+    if (tag) {
+      const cache = app.metadataCache.getFileCache(f);
+      const tags = cache ? (getAllTags(cache) ?? []) : [];
+      // 親タグ指定（#project）で子タグ（#project/a）も対象にする
+      if (!tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`))) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,143 @@
+// 入力中の Mermaid ブロックを検証する CodeMirror 6 拡張
+import { Extension, RangeSet, RangeSetBuilder, StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, GutterMarker, ViewPlugin, ViewUpdate, gutter, hoverTooltip } from "@codemirror/view";
+import { extractMermaidBlocks, hasMermaid, parseErrorLine, validateMermaidAsync } from "./utils";
+
+const LINT_DELAY_MS = 800;
+
+/** 1件の検出結果（ドキュメント上の絶対オフセット） */
+type LintMark = { from: number; to: number; message: string };
+
+const setLintMarks = StateEffect.define<LintMark[]>();
+
+const errorMark = Decoration.mark({ class: "mermaid-lint-error" });
+
+class ErrorGutterMarker extends GutterMarker {
+  constructor(private message: string) { super(); }
+  eq(other: ErrorGutterMarker) { return other.message === this.message; }
+  toDOM() {
+    const el = document.createElement("div");
+    el.className = "mermaid-lint-gutter-marker";
+    el.textContent = "●";
+    el.title = this.message;
+    return el;
+  }
+}
+
+/** 検出結果を保持し、編集に追従して位置をずらす */
+const lintField = StateField.define<{ marks: LintMark[]; deco: DecorationSet }>({
+  create: () => ({ marks: [], deco: Decoration.none }),
+  update(value, tr) {
+    for (const e of tr.effects) {
+      if (e.is(setLintMarks)) {
+        const marks = [...e.value].sort((a, b) => a.from - b.from);
+        const builder = new RangeSetBuilder<Decoration>();
+        for (const m of marks) if (m.to > m.from) builder.add(m.from, m.to, errorMark);
+        return { marks, deco: builder.finish() };
+      }
+    }
+    if (!tr.docChanged) return value;
+    const marks = value.marks
+      .map(m => ({ ...m, from: tr.changes.mapPos(m.from, 1), to: tr.changes.mapPos(m.to, -1) }))
+      .filter(m => m.to > m.from);
+    return { marks, deco: value.deco.map(tr.changes) };
+  },
+  provide: (f) => EditorView.decorations.from(f, (v) => v.deco),
+});
+
+const lintGutter = gutter({
+  class: "mermaid-lint-gutter",
+  markers: (view) => {
+    const builder = new RangeSetBuilder<GutterMarker>();
+    const seen = new Set<number>();
+    for (const m of view.state.field(lintField).marks) {
+      const line = view.state.doc.lineAt(m.from);
+      if (seen.has(line.from)) continue;
+      seen.add(line.from);
+      builder.add(line.from, line.from, new ErrorGutterMarker(m.message));
+    }
+    return builder.finish() as RangeSet<GutterMarker>;
+  },
+});
+
+const lintTooltip = hoverTooltip((view, pos) => {
+  const hit = view.state.field(lintField).marks.filter(m => pos >= m.from && pos <= m.to);
+  if (hit.length === 0) return null;
+  return {
+    pos: hit[0].from,
+    end: hit[0].to,
+    above: true,
+    create: () => {
+      const dom = document.createElement("div");
+      dom.className = "mermaid-lint-tooltip";
+      dom.textContent = hit.map(m => m.message).join("\n");
+      return { dom };
+    },
+  };
+});
+
+/** ブロック単位で検証し、エラー行（特定できなければブロック全体）を返す */
+async function lintDocument(text: string, cache: Map<string, string | null>): Promise<LintMark[]> {
+  const marks: LintMark[] = [];
+  for (const block of extractMermaidBlocks(text)) {
+    let error = cache.get(block.code);
+    if (error === undefined) {
+      const r = await validateMermaidAsync(block.code);
+      error = r.ok ? null : (r.error ?? "構文エラー");
+      cache.set(block.code, error);
+    }
+    if (error === null) continue;
+
+    const lines = block.code.split("\n");
+    const lineNo = parseErrorLine(error);
+    if (lineNo !== null && lineNo <= lines.length) {
+      const from = block.startOffset + lines.slice(0, lineNo - 1).reduce((n, l) => n + l.length + 1, 0);
+      const to = from + lines[lineNo - 1].length;
+      marks.push({ from, to: to > from ? to : Math.min(from + 1, block.endOffset), message: error });
+    } else {
+      marks.push({ from: block.startOffset, to: block.endOffset, message: error });
+    }
+  }
+  return marks;
+}
+
+const lintRunner = ViewPlugin.fromClass(class {
+  private timer: number | null = null;
+  private version = 0;
+  private cache = new Map<string, string | null>();
+
+  constructor(private view: EditorView) {
+    this.schedule();
+  }
+
+  update(u: ViewUpdate) {
+    if (u.docChanged) this.schedule();
+  }
+
+  destroy() {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = null;
+    this.version++;
+  }
+
+  private schedule() {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => { this.timer = null; void this.run(); }, LINT_DELAY_MS);
+  }
+
+  private async run() {
+    if (!hasMermaid()) return;
+    const version = ++this.version;
+    const text = this.view.state.doc.toString();
+    // 同一コードの再検証を避ける（キャッシュは肥大化したら破棄）
+    if (this.cache.size > 200) this.cache.clear();
+    const marks = await lintDocument(text, this.cache);
+    // 検証中に編集・破棄されていれば捨てる
+    if (version !== this.version || this.view.state.doc.toString() !== text) return;
+    this.view.dispatch({ effects: setLintMarks.of(marks) });
+  }
+});
+
+export function mermaidLintExtension(): Extension {
+  return [lintField, lintGutter, lintTooltip, lintRunner];
+}
@@ -0,0 +1,159 @@
+// LLM 呼び出しのスケジューラ（毎分のリクエスト数・同時実行数の制限、再試行、使用量の集計）
+import { LlmHttpError, LlmProvider, LlmRequest } from "./providers";
+import { sleep, withTimeout } from "./utils";
+
+export type LlmLimits = {
+  /** 0 なら無制限 */
+  requestsPerMinute: number;
+  concurrency: number;
+  maxRetries: number;
+};
+
+/** セッション中の使用量。トークン数は文字数からの概算 */
+export type LlmUsage = {
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+};
+
+const WINDOW_MS = 60_000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60_000;
+
+export function emptyLlmUsage(): LlmUsage {
+  return { requests: 0, retries: 0, rateLimited: 0, failures: 0, promptTokens: 0, outputTokens: 0 };
+}
+
+/** 英数字は約4文字、それ以外（日本語など）は約1文字で1トークンとみなす */
+export function estimateTokens(text: string): number {
+  const ascii = text.replace(/[^ -~\s]/g, "").length;
+  return Math.ceil(ascii / 4) + (text.length - ascii);
+}
+
+export function formatLlmUsage(usage: LlmUsage): string {
+  const parts = [`リクエスト ${usage.requests}回`];
+  if (usage.retries > 0) parts.push(`再試行 ${usage.retries}回（うちレート制限 ${usage.rateLimited}回）`);
+  if (usage.failures > 0) parts.push(`失敗 ${usage.failures}回`);
+  parts.push(`推定トークン 入力 ${usage.promptTokens.toLocaleString()} / 出力 ${usage.outputTokens.toLocaleString()}`);
+  return parts.join("・");
+}
+
+/** 2回の集計の差（ジョブ1回分の使用量を出すのに使う） */
+export function diffLlmUsage(after: LlmUsage, before: LlmUsage): LlmUsage {
+  return {
+    requests: after.requests - before.requests,
+    retries: after.retries - before.retries,
+    rateLimited: after.rateLimited - before.rateLimited,
+    failures: after.failures - before.failures,
+    promptTokens: after.promptTokens - before.promptTokens,
+    outputTokens: after.outputTokens - before.outputTokens,
+  };
+}
+
+/** 再試行してよいエラーか（429・5xx・タイムアウトのみ）。待ち時間の指定があれば返す */
+function retryInfo(e: unknown, timedOut: boolean): { retry: boolean; rateLimited: boolean; retryAfterMs: number | null } {
+  if (timedOut) return { retry: true, rateLimited: false, retryAfterMs: null };
+  if (e instanceof LlmHttpError) {
+    const rateLimited = e.status === 429;
+    return { retry: rateLimited || e.status >= 500, rateLimited, retryAfterMs: e.retryAfterMs };
+  }
+  return { retry: false, rateLimited: false, retryAfterMs: null };
+}
+
+export class LlmScheduler {
+  private active = 0;
+  // 直近1分間に送ったリクエストの開始時刻
+  private starts: number[] = [];
+  private waiters: (() => void)[] = [];
+  // 429 の Retry-After の間は、他のリクエストも送らない
+  private pausedUntil = 0;
+  private usage = emptyLlmUsage();
+
+  constructor(private limits: () => LlmLimits) {}
+
+  get snapshot(): LlmUsage {
+    return { ...this.usage };
+  }
+
+  resetUsage(): void {
+    this.usage = emptyLlmUsage();
+  }
+
+  /** 枠が空くまで待ってから送る。失敗したら指数バックオフで再試行する（timeoutMs は1回ごと） */
+  complete(provider: LlmProvider, req: LlmRequest, timeoutMs: number): Promise<string> {
+    return this.send(provider, req, timeoutMs, (signal) => provider.complete(req, signal), (raw) => raw);
+  }
+
+  /** provider.completeCandidates を同じ制限・再試行のもとで呼ぶ */
+  completeCandidates(provider: LlmProvider, req: LlmRequest, timeoutMs: number): Promise<string[]> {
+    const call = provider.completeCandidates;
+    if (!call) return Promise.reject(new Error(`${provider.label}は複数候補の生成に対応していません。`));
+    return this.send(provider, req, timeoutMs, (signal) => call.call(provider, req, signal), (raws) => raws.join(""));
+  }
+
+  private async send<T>(provider: LlmProvider, req: LlmRequest, timeoutMs: number, call: (signal: AbortSignal) => Promise<T>, outputText: (result: T) => string): Promise<T> {
+    const promptTokens = estimateTokens(req.prompt);
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      const controller = new AbortController();
+      let delay: number;
+      try {
+        this.usage.requests++;
+        this.usage.promptTokens += promptTokens;
+        const result = await withTimeout(call(controller.signal), timeoutMs, controller);
+        this.usage.outputTokens += estimateTokens(outputText(result));
+        return result;
+      } catch (e) {
+        const info = retryInfo(e, controller.signal.aborted);
+        if (!info.retry || attempt >= this.limits().maxRetries) {
+          this.usage.failures++;
+          throw e;
+        }
+        // ばらつきを加えて、同時に失敗したリクエストが一斉に再送しないようにする
+        const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+        delay = Math.max(backoff, info.retryAfterMs ?? 0);
+        if (info.rateLimited) {
+          this.usage.rateLimited++;
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+        this.usage.retries++;
+        console.warn(`${provider.label}: 再試行します（${attempt + 1}/${this.limits().maxRetries}、${Math.round(delay / 1000)}秒後）`, e);
+      } finally {
+        this.release();
+      }
+      await sleep(delay);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const { requestsPerMinute, concurrency } = this.limits();
+      const now = Date.now();
+      this.starts = this.starts.filter(t => now - t < WINDOW_MS);
+      let wait = Math.max(0, this.pausedUntil - now);
+      if (wait === 0 && requestsPerMinute > 0 && this.starts.length >= requestsPerMinute) {
+        wait = WINDOW_MS - (now - this.starts[0]);
+      }
+      if (wait === 0 && this.active < Math.max(1, concurrency)) {
+        this.active++;
+        this.starts.push(now);
+        return;
+      }
+      // 時間待ちならその時刻に、同時実行数待ちなら他のリクエストが終わったときに見直す
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+        if (wait > 0) window.setTimeout(resolve, wait);
+      });
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(w => w());
+  }
+}
@@ -0,0 +1,139 @@
+// ```mermaid ブロック内の入力補完（図の宣言・キーワード・宣言済みノードID・矢印）
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, TFile } from "obsidian";
+import { MermaidZoomPluginSettings } from "./types";
+import { DIAGRAM_DECLARATIONS, mermaidArrows, mermaidDiagramType, mermaidKeywords, tokenizeMermaidLine } from "./mermaidSyntax";
+import { parseDiagramGraph } from "./diagramGraph";
+
+type CompletionKind = "diagram" | "keyword" | "node" | "arrow";
+
+type MermaidCompletion = { text: string; kind: CompletionKind };
+
+const KIND_LABELS: Record<CompletionKind, string> = {
+  diagram: "図の種類",
+  keyword: "キーワード",
+  node: "ノード",
+  arrow: "矢印",
+};
+
+// カーソルから上にさかのぼってフェンスを探す行数の上限
+const MAX_SCAN_LINES = 500;
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*(\S*)/;
+const WORD_RE = /[\w\u3040-\u30ff\u4e00-\u9fff]+$/;
+const ARROW_PREFIX_RE = /(?:^|[\s\w\u3040-\u30ff\u4e00-\u9fff\])}])([-=.<|*o}][-=.<>|*ox{}]*)$/;
+
+/** カーソルを含む ```mermaid ブロックのコード。ブロック外なら null */
+function mermaidBlockAt(editor: Editor, line: number): { startLine: number; lines: string[] } | null {
+  let start = -1;
+  for (let i = line - 1; i >= Math.max(0, line - MAX_SCAN_LINES); i--) {
+    const m = editor.getLine(i).match(FENCE_RE);
+    if (!m) continue;
+    // 直近のフェンスが ```mermaid の開始でなければブロックの外
+    if (m[2].toLowerCase() !== "mermaid") return null;
+    start = i + 1;
+    break;
+  }
+  if (start < 0) return null;
+  const lines: string[] = [];
+  const last = Math.min(editor.lineCount() - 1, line + MAX_SCAN_LINES);
+  for (let i = start; i <= last; i++) {
+    const text = editor.getLine(i);
+    if (i > line && FENCE_RE.test(text)) break;
+    lines.push(text);
+  }
+  return { startLine: start, lines };
+}
+
+/** カーソルがラベル（括弧・引用符・|...| の中、sequenceDiagram のメッセージ）の途中か */
+function isInsideLabel(before: string, diagramType: string | null): boolean {
+  // ER 図の ||--o{ などの矢印に含まれる括弧を数えないよう、矢印は空白に置き換える
+  let text = before;
+  for (const token of tokenizeMermaidLine(before, diagramType)) {
+    if (token.type === "arrow") text = text.slice(0, token.from) + " ".repeat(token.to - token.from) + text.slice(token.to);
+  }
+  if (/(?:\[|\(|\{|"|\|)[^\])}"|]*$/.test(text)) return true;
+  return diagramType === "sequenceDiagram" && text.includes(":");
+}
+
+/** 宣言済みのノードID。flowchart / sequenceDiagram は構造から、それ以外は矢印の両側の語から集める */
+function declaredNodeIds(code: string, diagramType: string | null): string[] {
+  const ids = new Set<string>(parseDiagramGraph(code)?.nodes.keys() ?? []);
+  for (const line of code.split("\n")) {
+    for (const token of tokenizeMermaidLine(line, diagramType)) {
+      if (token.type !== "arrow") continue;
+      const before = line.slice(0, token.from).trimEnd().match(WORD_RE);
+      const after = line.slice(token.to).trimStart().match(/^[\w\u3040-\u30ff\u4e00-\u9fff]+/);
+      if (before) ids.add(before[0]);
+      if (after) ids.add(after[0]);
+    }
+  }
+  return [...ids];
+}
+
+export class MermaidEditorSuggest extends EditorSuggest<MermaidCompletion> {
+  // onTrigger で見つけた候補を getSuggestions で絞り込む
+  private candidates: MermaidCompletion[] = [];
+
+  constructor(app: App, private getSettings: () => MermaidZoomPluginSettings) {
+    super(app);
+  }
+
+  onTrigger(cursor: EditorPosition, editor: Editor, _file: TFile | null): EditorSuggestTriggerInfo | null {
+    if (!this.getSettings().editorAutocomplete) return null;
+    const block = mermaidBlockAt(editor, cursor.line);
+    if (!block) return null;
+    const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+    const code = block.lines.join("\n");
+    const diagramType = mermaidDiagramType(code);
+    if (isInsideLabel(before, diagramType)) return null;
+    const isFirstLine = block.lines.slice(0, cursor.line - block.startLine).every(l => !l.trim() || l.trim().startsWith("%%"));
+
+    const arrow = diagramType ? before.match(ARROW_PREFIX_RE) : null;
+    if (arrow && /[-=.<|]/.test(arrow[1])) {
+      const query = arrow[1];
+      this.candidates = mermaidArrows(diagramType).map(text => ({ text, kind: "arrow" }));
+      return { start: { line: cursor.line, ch: cursor.ch - query.length }, end: cursor, query };
+    }
+
+    const word = before.match(WORD_RE);
+    if (!word) return null;
+    const query = word[0];
+    const atLineStart = before.slice(0, before.length - query.length).trim() === "";
+    if (isFirstLine) {
+      if (!atLineStart) return null;
+      this.candidates = DIAGRAM_DECLARATIONS.map(text => ({ text, kind: "diagram" }));
+    } else {
+      // 入力中の語そのものは候補にしない
+      const ids = declaredNodeIds(code, diagramType).filter(id => id !== query);
+      this.candidates = [
+        ...(atLineStart ? mermaidKeywords(diagramType).map((text): MermaidCompletion => ({ text, kind: "keyword" })) : []),
+        ...ids.map((text): MermaidCompletion => ({ text, kind: "node" })),
+      ];
+    }
+    return { start: { line: cursor.line, ch: cursor.ch - query.length }, end: cursor, query };
+  }
+
+  getSuggestions(context: EditorSuggestContext): MermaidCompletion[] {
+    const query = context.query.toLowerCase();
+    const seen = new Set<string>();
+    const unique = this.candidates.filter(c => !seen.has(c.text) && seen.add(c.text));
+    // 前方一致を先に、次に部分一致（1文字では当たりすぎるので部分一致は2文字から）
+    const prefix = unique.filter(c => c.text.toLowerCase().startsWith(query) && c.text !== context.query);
+    const partial = query.length < 2 ? [] : unique.filter(c => !c.text.toLowerCase().startsWith(query) && c.text.toLowerCase().includes(query));
+    return [...prefix, ...partial].slice(0, 30);
+  }
+
+  renderSuggestion(item: MermaidCompletion, el: HTMLElement): void {
+    el.addClass("mermaid-suggest-item");
+    el.createSpan({ text: item.text, cls: "mermaid-suggest-text" });
+    el.createSpan({ text: KIND_LABELS[item.kind], cls: "mermaid-suggest-kind" });
+  }
+
+  selectSuggestion(item: MermaidCompletion, _evt: MouseEvent | KeyboardEvent): void {
+    if (!this.context) return;
+    const { editor, start, end } = this.context;
+    editor.replaceRange(item.text, start, end);
+    editor.setCursor({ line: start.line, ch: start.ch + item.text.length });
+    this.close();
+  }
+}
@@ -0,0 +1,189 @@
+// Mermaid コードの簡易トークナイザと、CodeMirror 6 の構文ハイライト拡張
+import { Extension, RangeSetBuilder } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { extractMermaidBlocks, inferDiagramType } from "./utils";
+
+export type MermaidTokenType = "keyword" | "diagram" | "arrow" | "bracket" | "string" | "label" | "comment" | "directive";
+
+/** 1行の中のトークン（行頭からの文字位置） */
+export type MermaidToken = { from: number; to: number; type: MermaidTokenType };
+
+/** 図種ごとの行頭キーワード */
+const KEYWORDS: Record<string, string[]> = {
+  graph: ["subgraph", "end", "direction", "classDef", "class", "style", "linkStyle", "click"],
+  sequenceDiagram: ["participant", "actor", "as", "loop", "alt", "else", "opt", "par", "and", "critical", "break", "rect", "end", "note", "Note", "over", "left of", "right of", "activate", "deactivate", "autonumber", "box", "title"],
+  classDiagram: ["class", "direction", "namespace", "note", "for", "classDef", "style", "cssClass", "click", "link", "callback"],
+  erDiagram: ["title", "direction"],
+  stateDiagram: ["state", "direction", "note", "end note", "left of", "right of", "as", "classDef", "class", "style"],
+  gantt: ["title", "dateFormat", "axisFormat", "tickInterval", "excludes", "includes", "todayMarker", "section", "weekday"],
+  journey: ["title", "section"],
+  pie: ["title", "showData"],
+  mindmap: ["root"],
+  timeline: ["title", "section"],
+};
+
+/** 図種ごとに使える矢印（補完の候補。よく使うものから並べる） */
+const ARROWS: Record<string, string[]> = {
+  graph: ["-->", "---", "-.->", "==>", "-->|", "--o", "--x", "<-->", "-.-", "==="],
+  sequenceDiagram: ["->>", "-->>", "->", "-->", "-x", "--x", "-)", "--)"],
+  classDiagram: ["-->", "<|--", "*--", "o--", "--", "..>", "..|>", ".."],
+  erDiagram: ["||--o{", "||--|{", "}o--o{", "||--||", "|o--o|", "}|..|{"],
+  stateDiagram: ["-->"],
+};
+
+/** ブロック先頭の宣言の候補 */
+export const DIAGRAM_DECLARATIONS = [
+  "flowchart TD", "flowchart LR", "graph TD", "graph LR", "sequenceDiagram", "classDiagram",
+  "stateDiagram-v2", "erDiagram", "gantt", "journey", "pie", "mindmap", "timeline",
+];
+
+/** 1行目の宣言（graph TD / sequenceDiagram など） */
+const DIAGRAM_RE = /^\s*(flowchart|graph|sequenceDiagram|classDiagram|erDiagram|stateDiagram(?:-v2)?|gantt|journey|pie|mindmap|timeline|gitGraph|quadrantChart|requirementDiagram|C4Context)\b(?:\s+(TB|TD|BT|RL|LR))?/;
+
+// 矢印（-->, ==>, -.->, --x, <-->, ->>, -->>, -x, -), --|> など）
+const ARROW_SOURCE = String.raw`<\|--|\*--|o--|<?(?:-{2,}|={2,}|-\.+-?)(?:>>|\|>|[>xo*)])?|-{1,2}>>?|-{1,2}[x)](?![\w])|\|o--o\||\}o--o\{|\|\|--o\{|\}o--\|\||\|\|--\|\||\|o--\|\|`;
+
+// ノード形状の括弧（[[ ]]、[( )]、(( ))、{{ }}、[/ /] など）
+const BRACKET_SOURCE = String.raw`\[\[|\]\]|\[\(|\)\]|\(\(|\)\)|\(\[|\]\)|\{\{|\}\}|\[\/|\/\]|\[\\|\\\]|[[\](){}]`;
+
+/** 図種の判定。%% で始まる行（ディレクティブ・コメント）は飛ばす */
+export function mermaidDiagramType(code: string): string | null {
+  return inferDiagramType(code.split("\n").filter(l => !l.trim().startsWith("%%")).join("\n"));
+}
+
+export function mermaidKeywords(type: string | null): string[] {
+  return type ? KEYWORDS[type] ?? [] : [];
+}
+
+export function mermaidArrows(type: string | null): string[] {
+  return type ? ARROWS[type] ?? [] : [];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** 1行をトークンに分ける。diagramType は mermaidDiagramType の結果 */
+export function tokenizeMermaidLine(line: string, diagramType: string | null): MermaidToken[] {
+  const tokens: MermaidToken[] = [];
+  const trimmed = line.trimStart();
+  const indent = line.length - trimmed.length;
+
+  if (trimmed.startsWith("%%{")) return [{ from: indent, to: line.length, type: "directive" }];
+  if (trimmed.startsWith("%%")) return [{ from: indent, to: line.length, type: "comment" }];
+
+  const decl = line.match(DIAGRAM_RE);
+  let pos = 0;
+  if (decl) {
+    tokens.push({ from: indent, to: decl[0].length, type: "diagram" });
+    pos = decl[0].length;
+  } else {
+    // 長いキーワード（left of など）を先に試す
+    const keywords = [...mermaidKeywords(diagramType)].sort((a, b) => b.length - a.length);
+    const kw = keywords.find(k => new RegExp(`^${escapeRegExp(k)}(?![\\w-])`).test(trimmed));
+    if (kw) {
+      tokens.push({ from: indent, to: indent + kw.length, type: "keyword" });
+      pos = indent + kw.length;
+    }
+  }
+
+  // ER 図の ||--o{ をエッジラベルと取り違えないよう、矢印を先に試す
+  const re = new RegExp(`("[^"]*"?)|(${ARROW_SOURCE})|(\\|[^|\\n]*\\|)|(${BRACKET_SOURCE})`, "g");
+  re.lastIndex = pos;
+  for (let m = re.exec(line); m; m = re.exec(line)) {
+    if (m[0].length === 0) { re.lastIndex++; continue; }
+    const type: MermaidTokenType = m[1] ? "string" : m[2] ? "arrow" : m[3] ? "label" : "bracket";
+    tokens.push({ from: m.index, to: m.index + m[0].length, type });
+  }
+  return tokens;
+}
+
+const tokenMarks = new Map<MermaidTokenType, Decoration>();
+function markFor(type: MermaidTokenType): Decoration {
+  let mark = tokenMarks.get(type);
+  if (!mark) {
+    mark = Decoration.mark({ class: `mermaid-tok-${type}` });
+    tokenMarks.set(type, mark);
+  }
+  return mark;
+}
+
+/**
+ * 1行分のハイライト装飾を builder に積む（lineFrom は行頭のドキュメント上の位置）。
+ * 行はドキュメント順に渡すこと（RangeSetBuilder の制約）。
+ */
+export function addMermaidHighlights(builder: RangeSetBuilder<Decoration>, lineFrom: number, text: string, diagramType: string | null): void {
+  for (const token of tokenizeMermaidLine(text, diagramType)) {
+    if (token.to > token.from) builder.add(lineFrom + token.from, lineFrom + token.to, markFor(token.type));
+  }
+}
+
+function buildHighlights(view: EditorView): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  const doc = view.state.doc;
+  const diagramType = mermaidDiagramType(doc.toString());
+  for (const { from, to } of view.visibleRanges) {
+    for (let pos = from; pos <= to;) {
+      const line = doc.lineAt(pos);
+      addMermaidHighlights(builder, line.from, line.text, diagramType);
+      pos = line.to + 1;
+    }
+  }
+  return builder.finish();
+}
+
+/** ドキュメント全体を Mermaid のコードとしてハイライトする（修正プレビューのエディタ用） */
+export function mermaidHighlighter(): Extension {
+  return ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+    constructor(view: EditorView) {
+      this.decorations = buildHighlights(view);
+    }
+    update(update: ViewUpdate) {
+      if (update.docChanged || update.viewportChanged) this.decorations = buildHighlights(update.view);
+    }
+  }, { decorations: (v) => v.decorations });
+}
+
+type FenceBlock = { from: number; to: number; diagramType: string | null };
+
+function findFenceBlocks(doc: string): FenceBlock[] {
+  return extractMermaidBlocks(doc).map(b => ({ from: b.startOffset, to: b.endOffset, diagramType: mermaidDiagramType(b.code) }));
+}
+
+/** ノート中の ```mermaid ブロックの中だけをハイライトする（エディタ拡張） */
+export function mermaidFenceHighlighter(): Extension {
+  return ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+    // ブロックの位置は文書が変わったときだけ探し直す（スクロールでは使い回す）
+    private blocks: FenceBlock[];
+    constructor(view: EditorView) {
+      this.blocks = findFenceBlocks(view.state.doc.toString());
+      this.decorations = this.build(view);
+    }
+    update(update: ViewUpdate) {
+      if (update.docChanged) this.blocks = findFenceBlocks(update.state.doc.toString());
+      if (update.docChanged || update.viewportChanged) this.decorations = this.build(update.view);
+    }
+    private build(view: EditorView): DecorationSet {
+      const builder = new RangeSetBuilder<Decoration>();
+      const doc = view.state.doc;
+      let lastLine = 0;
+      for (const { from, to } of view.visibleRanges) {
+        for (const block of this.blocks) {
+          const start = Math.max(from, block.from);
+          const end = Math.min(to, block.to);
+          if (start > end || block.to <= block.from) continue;
+          for (let pos = start; pos <= end;) {
+            const line = doc.lineAt(pos);
+            // 見えている範囲の境目で同じ行を二度積まない
+            if (line.number > lastLine) addMermaidHighlights(builder, line.from, line.text, block.diagramType);
+            lastLine = line.number;
+            pos = line.to + 1;
+          }
+        }
+      }
+      return builder.finish();
+    }
+  }, { decorations: (v) => v.decorations });
+}
@@ -0,0 +1,104 @@
+// ズームビューアのミニマップ（全体図＋表示範囲の枠）
+import { PanZoomState, Size } from "./gestures";
+
+const MAX_WIDTH = 200;
+const MAX_HEIGHT = 150;
+
+export type MinimapTarget = {
+  get(): PanZoomState;
+  set(state: PanZoomState): void;
+  /** 表示領域のサイズ */
+  viewSize(): Size;
+  /** 等倍時の図のサイズ */
+  diagramSize(): Size;
+};
+
+/** 図の縮小コピーに現在の表示範囲を重ねる。枠のドラッグやクリックで表示位置を移動できる */
+export class Minimap {
+  readonly el: HTMLElement;
+  private thumb: HTMLElement;
+  private viewport: HTMLElement;
+  private scale = 1;
+
+  constructor(parent: HTMLElement, diagram: HTMLElement, private target: MinimapTarget) {
+    this.el = parent.createDiv({ cls: "mermaid-zoom-minimap", attr: { "aria-hidden": "true" } });
+    this.thumb = this.el.createDiv({ cls: "mermaid-zoom-minimap-thumb" });
+    const svg = diagram.querySelector("svg")?.cloneNode(true) as SVGSVGElement | undefined;
+    if (svg) {
+      // 元の style 指定（max-width 等）が縮小表示を邪魔するので外す
+      svg.removeAttribute("style");
+      svg.setAttribute("width", "100%");
+      svg.setAttribute("height", "100%");
+      this.thumb.appendChild(svg);
+    }
+    this.viewport = this.el.createDiv({ cls: "mermaid-zoom-minimap-viewport" });
+    this.registerDrag();
+  }
+
+  destroy(): void {
+    this.el.remove();
+  }
+
+  setVisible(visible: boolean): void {
+    this.el.toggleClass("is-hidden", !visible);
+    if (visible) this.layout();
+  }
+
+  /** 図のサイズが確定した後（初回表示時）に呼ぶ */
+  layout(): void {
+    const { width, height } = this.target.diagramSize();
+    if (!width || !height) return;
+    this.scale = Math.min(MAX_WIDTH / width, MAX_HEIGHT / height);
+    Object.assign(this.el.style, { width: `${width * this.scale}px`, height: `${height * this.scale}px` });
+    this.update();
+  }
+
+  /** 表示範囲の枠を現在のパン・ズームに合わせる */
+  update(): void {
+    const { zoom, panX, panY } = this.target.get();
+    const view = this.target.viewSize();
+    const s = this.scale;
+    Object.assign(this.viewport.style, {
+      left: `${(-panX / zoom) * s}px`,
+      top: `${(-panY / zoom) * s}px`,
+      width: `${(view.width / zoom) * s}px`,
+      height: `${(view.height / zoom) * s}px`,
+    });
+  }
+
+  /** ミニマップ上の点（図の座標）が表示領域の中心に来るようにパンする */
+  private centerOn(clientX: number, clientY: number): void {
+    const rect = this.el.getBoundingClientRect();
+    const x = (clientX - rect.left) / this.scale, y = (clientY - rect.top) / this.scale;
+    const state = this.target.get();
+    const view = this.target.viewSize();
+    this.target.set({ ...state, panX: view.width / 2 - x * state.zoom, panY: view.height / 2 - y * state.zoom });
+  }
+
+  private registerDrag(): void {
+    let dragging: number | null = null;
+    // 親（表示領域）のパン操作に伝播させない
+    this.el.addEventListener("pointerdown", (e) => {
+      e.stopPropagation();
+      e.preventDefault();
+      dragging = e.pointerId;
+      this.el.setPointerCapture?.(e.pointerId);
+      this.el.addClass("is-dragging");
+      this.centerOn(e.clientX, e.clientY);
+    });
+    this.el.addEventListener("pointermove", (e) => {
+      if (dragging !== e.pointerId) return;
+      e.stopPropagation();
+      this.centerOn(e.clientX, e.clientY);
+    });
+    const end = (e: PointerEvent) => {
+      if (dragging !== e.pointerId) return;
+      e.stopPropagation();
+      dragging = null;
+      this.el.removeClass("is-dragging");
+    };
+    this.el.addEventListener("pointerup", end);
+    this.el.addEventListener("pointercancel", end);
+    this.el.addEventListener("dblclick", (e) => e.stopPropagation());
+  }
+}
@@ -1,18 +1,174 @@
 // 独自モーダル（修正プレビュー）
-import { DiffLine, calculateDiff } from "./utils";
+import { App, FuzzySuggestModal, Modal, Setting, TFolder, moment } from "obsidian";
+import { JobScope, JobSummary } from "./types";
+import { DiffFold, DiffLine, applyDiffHunks, calculateDiff, editDistance, foldUnchangedLines, parseErrorLine, validateMermaidAsync } from "./utils";
+import { DiagramGraph, GraphDiff, diffDiagramGraphs, isEmptyGraphDiff, parseDiagramGraph } from "./diagramGraph";
+import { findEdgeElements, findNodeElements } from "./sourceLink";
+import { LineFold, LineMark, MermaidCodeEditor } from "./codeEditor";
+
+/** Vault 内のフォルダを選択するピッカー */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(app: App, private onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.setPlaceholder("フォルダを選択…");
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+/** 全ファイル系ジョブの開始確認。対象範囲（フォルダ・タグ・更新日）を選べる */
+export class JobStartModal extends Modal {
+  private jobScope: JobScope = {};
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private opts: { title: string; message: string; countFiles: (scope: JobScope) => number },
+    private onResult: (scope: JobScope | null) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText(this.opts.title);
+    contentEl.createEl("p", { text: this.opts.message, cls: "mermaid-job-message" });
+
+    const folders = this.app.vault.getAllLoadedFiles()
+      .filter((f): f is TFolder => f instanceof TFolder && !f.isRoot())
+      .map(f => f.path)
+      .sort();
+    const count = contentEl.createDiv({ cls: "mermaid-job-count" });
+    const updateCount = () => count.setText(`対象: ${this.opts.countFiles(this.jobScope)}ファイル`);
+
+    new Setting(contentEl)
+      .setName("フォルダ")
+      .setDesc("指定したフォルダ配下のみを対象にします。")
+      .addDropdown((d) => {
+        d.addOption("", "（すべて）");
+        folders.forEach(f => d.addOption(f, f));
+        d.onChange((v) => { this.jobScope.folder = v || undefined; updateCount(); });
+      });
+    new Setting(contentEl)
+      .setName("タグ")
+      .setDesc("指定したタグ（子タグを含む）を持つノートのみを対象にします。例: #project")
+      .addText((t) => t.setPlaceholder("#tag").onChange((v) => { this.jobScope.tag = v.trim() || undefined; updateCount(); }));
+    new Setting(contentEl)
+      .setName("更新日")
+      .setDesc("この日以降に更新されたノートのみを対象にします。")
+      .addText((t) => {
+        t.inputEl.type = "date";
+        t.onChange((v) => {
+          const m = moment(v, "YYYY-MM-DD", true);
+          this.jobScope.modifiedSince = v && m.isValid() ? m.startOf("day").valueOf() : undefined;
+          updateCount();
+        });
+      });
+    updateCount();
+
+    new Setting(contentEl)
+      .addButton((b) => b.setButtonText("キャンセル").setWarning().onClick(() => this.finish(null)))
+      .addButton((b) => b.setButtonText("実行").setCta().onClick(() => this.finish(this.jobScope)));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    if (!this.resolved) { this.resolved = true; this.onResult(null); }
+  }
+
+  private finish(scope: JobScope | null): void {
+    this.resolved = true;
+    this.onResult(scope);
+    this.close();
+  }
+}
+
+/** ジョブ終了時の結果表示 */
+export class JobSummaryModal extends Modal {
+  constructor(app: App, private summary: JobSummary) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const s = this.summary;
+    this.titleEl.setText(`${s.name}: ${s.cancelled ? "中断しました" : "完了しました"}`);
+    const list = this.contentEl.createEl("ul", { cls: "mermaid-job-summary" });
+    list.createEl("li", { text: `処理ファイル: ${s.done} / ${s.total}` });
+    list.createEl("li", { text: `検出エラー: ${s.errors}件` });
+    list.createEl("li", { text: `所要時間: ${(s.elapsedMs / 1000).toFixed(1)}秒` });
+    s.details.forEach(d => list.createEl("li", { text: d }));
+    new Setting(this.contentEl).addButton((b) => b.setButtonText("閉じる").setCta().onClick(() => this.close()));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+type FixPreviewOptions = {
+  original: string;
+  proposed: string;
+  /** 検証に通った修正案（元のコードに近い順、先頭は proposed）。2件以上あれば切り替えられる */
+  alternatives?: string[];
+  onReplace: (code: string) => void;
+  onSkip: () => void;
+  onAutoApply: (code: string) => void;
+  /** 編集したコードと今のエラーを LLM に渡して直し直す（LLM が使えない場合は省略） */
+  onRefine?: (code: string, error: string) => Promise<string>;
+};
+
+function foldLabel(fold: DiffFold): string {
+  return `⋯ 変更のない ${fold.lines.length} 行（クリックで展開）`;
+}
 
 export class FixPreviewModal {
   private modal: HTMLElement | null = null;
   private backdrop: HTMLElement | null = null;
-  private opts: { original: string; proposed: string; onReplace: () => void; onSkip: () => void; onAutoApply: () => void; };
+  private opts: FixPreviewOptions;
   private currentMode: 'side-by-side' | 'inline' = 'side-by-side';
   private panelsContainer: HTMLElement | null = null;
   private leftPanel: HTMLElement | null = null;
   private rightPanel: HTMLElement | null = null;
   private renderPanel: HTMLElement | null = null;
-
-  constructor(opts: { original: string; proposed: string; onReplace: () => void; onSkip: () => void; onAutoApply: () => void; }) {
+  private originalRender: HTMLElement | null = null;
+  private proposedRender: HTMLElement | null = null;
+  private graphDiffEl: HTMLElement | null = null;
+  // 元のコードは編集されないので一度だけ描画する
+  private originalRendering: Promise<boolean> | null = null;
+  private renderSeq = 0;
+  // 編集を反映した修正後のコード。差分表示はこれと元のコードを比べる
+  private currentCode: string;
+  private originalCodeEl: HTMLElement | null = null;
+  private editor: MermaidCodeEditor | null = null;
+  private undoBtn: HTMLButtonElement | null = null;
+  private redoBtn: HTMLButtonElement | null = null;
+  private refineBtn: HTMLButtonElement | null = null;
+  private validationStatusEl: HTMLElement | null = null;
+  // 直近の検証エラー（通っていれば null）。LLM への再依頼に使う
+  private lastError: string | null = null;
+  private refining = false;
+  // 採用しないハンクの番号。コードを編集するとハンクが振り直されるので空に戻す
+  private rejectedHunks = new Set<number>();
+  // 左右比較で展開した折りたたみ（先頭行の元の行番号）。入力のたびに畳み直さないよう覚えておく
+  private expandedFolds = new Set<number>();
+  // 結果のコードを検証し終えるまで押せないボタン（置換・以後自動適用）
+  private applyButtons: HTMLButtonElement[] = [];
+  private validateSeq = 0;
+  private candidateButtons: { code: string; button: HTMLButtonElement }[] = [];
+
+  constructor(opts: FixPreviewOptions) {
     this.opts = opts;
+    this.currentCode = opts.proposed;
   }
 
   open(): void {
@@ -29,6 +185,8 @@ export class FixPreviewModal {
 
   close(): void {
     if (!this.modal || !this.backdrop) return;
+    this.editor?.destroy();
+    this.editor = null;
     this.backdrop.classList.remove("mermaid-fix-backdrop-visible");
     this.modal.classList.remove("mermaid-fix-modal-visible");
     setTimeout(() => {
@@ -81,6 +239,8 @@ export class FixPreviewModal {
     const controls = document.createElement("div");
     controls.className = "mermaid-fix-controls";
     controls.appendChild(diffModeToggle);
+    const candidates = this.createCandidateSelector();
+    if (candidates) controls.appendChild(candidates);
 
     // エラー表示エリア
     const errorDisplay = document.createElement("div");
@@ -105,24 +265,42 @@ export class FixPreviewModal {
     const proposedLabel = document.createElement("div");
     proposedLabel.textContent = "修正後のコード";
     proposedLabel.className = "mermaid-fix-label";
-    const proposedCode = document.createElement("pre");
-    proposedCode.textContent = this.opts.proposed;
-    proposedCode.className = "mermaid-fix-code";
-    proposedCode.contentEditable = "true";
-    proposedCode.oninput = () => this.onCodeEdit(proposedCode.textContent || "");
     this.rightPanel.appendChild(proposedLabel);
-    this.rightPanel.appendChild(proposedCode);
+    this.rightPanel.appendChild(this.createEditorToolbar());
+    const editorHost = document.createElement("div");
+    editorHost.className = "mermaid-fix-editor";
+    this.editor = new MermaidCodeEditor(editorHost, this.opts.proposed, (code) => this.onCodeEdit(code));
+    this.rightPanel.appendChild(editorHost);
 
     this.renderPanel = document.createElement("div");
     this.renderPanel.className = "mermaid-fix-panel";
     const renderLabel = document.createElement("div");
-    renderLabel.textContent = "修正後のレンダリング（クリックで拡大）";
+    renderLabel.textContent = "レンダリング比較（クリックで拡大）";
     renderLabel.className = "mermaid-fix-label";
-    const renderContainer = document.createElement("div");
-    renderContainer.className = "mermaid-fix-render";
-    renderContainer.innerHTML = '<div class="mermaid-fix-loading">レンダリング中...</div>';
+    const compare = document.createElement("div");
+    compare.className = "mermaid-fix-render-compare";
+    const createRenderPane = (caption: string) => {
+      const pane = document.createElement("div");
+      pane.className = "mermaid-fix-render-pane";
+      const captionEl = document.createElement("div");
+      captionEl.className = "mermaid-fix-render-caption";
+      captionEl.textContent = caption;
+      const container = document.createElement("div");
+      container.className = "mermaid-fix-render";
+      container.innerHTML = '<div class="mermaid-fix-loading">レンダリング中...</div>';
+      pane.appendChild(captionEl);
+      pane.appendChild(container);
+      compare.appendChild(pane);
+      return container;
+    };
+    this.originalRender = createRenderPane("元の図");
+    this.proposedRender = createRenderPane("修正後の図");
+    this.graphDiffEl = document.createElement("div");
+    this.graphDiffEl.className = "mermaid-fix-graph-diff";
+    this.graphDiffEl.style.display = "none";
     this.renderPanel.appendChild(renderLabel);
-    this.renderPanel.appendChild(renderContainer);
+    this.renderPanel.appendChild(compare);
+    this.renderPanel.appendChild(this.graphDiffEl);
 
     this.panelsContainer = document.createElement("div");
     this.panelsContainer.className = "mermaid-fix-panels";
@@ -133,11 +311,14 @@ export class FixPreviewModal {
     content.appendChild(controls);
     content.appendChild(this.panelsContainer);
 
+    this.originalCodeEl = originalCode;
+    this.updateSideBySideDiffHighlight();
+
     // 初期レンダリング
-    this.renderMermaid(renderContainer, this.opts.proposed, "修正後のコード");
+    void this.renderComparison(this.opts.proposed, "修正後のコード");
     
     // 同期スクロール設定
-    this.setupSyncScroll(originalCode, proposedCode);
+    this.setupSyncScroll(originalCode, this.editor.view.scrollDOM);
 
     const footer = document.createElement("div");
     footer.className = "mermaid-fix-footer";
@@ -150,10 +331,14 @@ export class FixPreviewModal {
       return btn;
     };
 
-    footer.appendChild(createButton("以後自動適用", () => { this.close(); this.opts.onAutoApply(); }));
-    const replaceBtn = createButton("置換", () => { this.close(); this.opts.onReplace(); }, true);
+    const autoApplyBtn = createButton("以後自動適用", () => { this.close(); this.opts.onAutoApply(this.resultCode()); });
+    footer.appendChild(autoApplyBtn);
+    const replaceBtn = createButton("置換", () => { this.close(); this.opts.onReplace(this.resultCode()); }, true);
     replaceBtn.classList.add("mermaid-fix-btn-replace");
     footer.appendChild(replaceBtn);
+    this.applyButtons = [autoApplyBtn, replaceBtn];
+    // ボタンを作ってから検証を始める（検証が通るまで押せないようにする）
+    void this.validateCode(this.opts.proposed);
 
     this.modal.appendChild(header);
     this.modal.appendChild(content);
@@ -163,24 +348,125 @@ export class FixPreviewModal {
   private createDiffView(original: string, modified: string): HTMLElement {
     const container = document.createElement("div");
     const diffLines = calculateDiff(original, modified);
-    
-    diffLines.forEach(line => {
-      const lineElement = document.createElement("div");
-      lineElement.className = `mermaid-fix-diff-line ${line.type}`;
-      
+    const hunkCount = diffLines.reduce((n, line) => Math.max(n, (line.hunk ?? -1) + 1), 0);
+    let lastHunk: number | undefined;
+    foldUnchangedLines(diffLines).forEach(item => {
+      if (item.type === 'fold') {
+        container.appendChild(this.createFoldElement(item));
+        return;
+      }
+      // ハンクの先頭に採用/不採用の切り替えを置く
+      if (item.hunk !== undefined && item.hunk !== lastHunk) {
+        container.appendChild(this.createHunkHeader(item.hunk, hunkCount));
+      }
+      lastHunk = item.hunk;
+      container.appendChild(this.createDiffLineElement(item));
+    });
+    return container;
+  }
+
+  private createHunkHeader(hunk: number, hunkCount: number): HTMLElement {
+    const header = document.createElement("div");
+    header.className = "mermaid-fix-hunk-header";
+    const rejected = this.rejectedHunks.has(hunk);
+    if (rejected) header.classList.add("is-rejected");
+
+    const title = document.createElement("span");
+    title.textContent = `変更 ${hunk + 1}/${hunkCount}`;
+    const toggle = document.createElement("label");
+    toggle.className = "mermaid-fix-hunk-toggle";
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.checked = !rejected;
+    checkbox.onchange = () => this.toggleHunk(hunk, checkbox.checked);
+    toggle.appendChild(checkbox);
+    toggle.appendChild(document.createTextNode("採用"));
+
+    header.appendChild(title);
+    header.appendChild(toggle);
+    return header;
+  }
+
+  private createDiffLineElement(line: DiffLine): HTMLElement {
+    const lineElement = document.createElement("div");
+    lineElement.className = `mermaid-fix-diff-line ${line.type}`;
+    if (line.segments) lineElement.classList.add("has-segments");
+    if (this.isRejected(line)) lineElement.classList.add("is-rejected");
+
+    // 元の行番号と修正後の行番号を並べる
+    [line.oldLineNumber, line.newLineNumber].forEach(n => {
       const lineNumber = document.createElement("span");
       lineNumber.className = "mermaid-fix-diff-line-number";
-      lineNumber.textContent = line.lineNumber?.toString() || "";
-      
-      const content = document.createElement("span");
-      content.textContent = line.content;
-      
+      lineNumber.textContent = n?.toString() || "";
       lineElement.appendChild(lineNumber);
-      lineElement.appendChild(content);
-      container.appendChild(lineElement);
     });
-    
-    return container;
+
+    const content = document.createElement("span");
+    this.appendLineContent(content, line);
+    lineElement.appendChild(content);
+    return lineElement;
+  }
+
+  /** 畳んだ変更なしの行。クリックで展開する */
+  private createFoldElement(fold: DiffFold): HTMLElement {
+    const foldElement = document.createElement("div");
+    foldElement.className = "mermaid-fix-diff-fold";
+    foldElement.textContent = foldLabel(fold);
+    foldElement.onclick = () => foldElement.replaceWith(...fold.lines.map(line => this.createDiffLineElement(line)));
+    return foldElement;
+  }
+
+  /** 行の内容。行内差分があれば変更された文字だけを強調する */
+  private appendLineContent(el: HTMLElement, line: DiffLine): void {
+    if (!line.segments) {
+      el.textContent = line.content;
+      return;
+    }
+    line.segments.forEach(segment => {
+      if (!segment.changed) {
+        el.appendChild(document.createTextNode(segment.text));
+        return;
+      }
+      const mark = document.createElement("span");
+      mark.className = `mermaid-fix-diff-char-${line.type}`;
+      mark.textContent = segment.text;
+      el.appendChild(mark);
+    });
+  }
+
+  /**
+   * 左右比較の元のコード欄を、変更行と行内の変更箇所を強調した行の並びにする。
+   * 行番号は data-line 属性から CSS で描くので、textContent はコードのまま変わらない。
+   */
+  private renderCodeLines(el: HTMLElement, items: (DiffLine | DiffFold)[]): void {
+    el.textContent = "";
+    items.forEach((item, i) => {
+      if (i > 0) el.appendChild(document.createTextNode("\n"));
+      if (item.type !== 'fold') {
+        el.appendChild(this.createCodeLineElement(item));
+        return;
+      }
+      const foldElement = document.createElement("span");
+      foldElement.className = "mermaid-fix-code-fold";
+      foldElement.textContent = foldLabel(item);
+      foldElement.onclick = () => this.expandFold(item);
+      el.appendChild(foldElement);
+    });
+  }
+
+  private createCodeLineElement(line: DiffLine): HTMLElement {
+    const lineElement = document.createElement("span");
+    lineElement.className = `mermaid-fix-code-line ${line.type}`;
+    if (this.isRejected(line)) lineElement.classList.add("is-rejected");
+    lineElement.dataset.line = String(line.oldLineNumber ?? "");
+    this.appendLineContent(lineElement, line);
+    return lineElement;
+  }
+
+  /** 左右の欄の行がずれないよう、元のコード欄とエディタの同じ折りたたみを一緒に展開する */
+  private expandFold(fold: DiffFold): void {
+    this.expandedFolds.add(fold.lines[0].oldLineNumber ?? 0);
+    this.updateSideBySideDiffHighlight();
   }
 
   private switchToSideBySideMode(): void {
@@ -236,10 +522,10 @@ export class FixPreviewModal {
     panel.className = "mermaid-fix-panel";
     
     const label = document.createElement("div");
-    label.textContent = "修正後のコード（差分表示）";
+    label.textContent = "修正後のコード（差分表示・変更ごとに採用を選択）";
     label.className = "mermaid-fix-label";
     
-    const diffView = this.createDiffView(this.opts.original, this.opts.proposed);
+    const diffView = this.createDiffView(this.opts.original, this.currentCode);
     diffView.className = "mermaid-fix-diff";
     
     panel.appendChild(label);
@@ -253,50 +539,209 @@ export class FixPreviewModal {
     if (this.currentMode === 'inline') {
       const diffView = this.panelsContainer?.querySelector('.mermaid-fix-diff');
       if (diffView) {
-        const newDiffView = this.createDiffView(this.opts.original, this.opts.proposed);
+        const newDiffView = this.createDiffView(this.opts.original, this.currentCode);
         newDiffView.className = "mermaid-fix-diff";
         diffView.replaceWith(newDiffView);
         console.log("Updated inline diff view");
       }
-    } else {
-      // 左右比較モードでも差分ハイライトを適用
-      this.updateSideBySideDiffHighlight();
     }
+    // 左右比較モードに戻ったときのため、表示していなくても差分ハイライトを更新しておく
+    this.updateSideBySideDiffHighlight();
   }
 
   private updateSideBySideDiffHighlight(): void {
-    console.log("Updating side-by-side diff highlight");
-    // 左右比較モードでの差分ハイライト機能を実装予定
+    const diff = calculateDiff(this.opts.original, this.currentCode);
+    // 追加行を除く前に畳む（追加だけの変更の周りにも文脈を残すため）。展開済みの折りたたみは行に戻す
+    const items: (DiffLine | DiffFold)[] = [];
+    const folds: DiffFold[] = [];
+    for (const item of foldUnchangedLines(diff)) {
+      if (item.type !== 'fold') {
+        if (item.type !== 'added') items.push(item);
+      } else if (this.expandedFolds.has(item.lines[0].oldLineNumber ?? 0)) {
+        items.push(...item.lines);
+      } else {
+        items.push(item);
+        folds.push(item);
+      }
+    }
+    if (this.originalCodeEl) this.renderCodeLines(this.originalCodeEl, items);
+    const marks: LineMark[] = [];
+    for (const line of diff) {
+      if (line.type !== 'added' || line.newLineNumber === undefined) continue;
+      const ranges: [number, number][] = [];
+      let offset = 0;
+      for (const segment of line.segments ?? []) {
+        // 文字位置はエディタと同じ UTF-16 単位で数える
+        if (segment.changed) ranges.push([offset, offset + segment.text.length]);
+        offset += segment.text.length;
+      }
+      marks.push({
+        line: line.newLineNumber,
+        cls: this.isRejected(line) ? "mermaid-fix-editor-added mermaid-fix-editor-rejected" : "mermaid-fix-editor-added",
+        ranges,
+        rangeCls: "mermaid-fix-diff-char-added",
+      });
+    }
+    this.editor?.setDiffMarks(marks);
+    this.editor?.setFolds(folds.map((fold): LineFold => ({
+      from: fold.lines[0].newLineNumber ?? 0,
+      to: fold.lines[fold.lines.length - 1].newLineNumber ?? 0,
+      label: foldLabel(fold),
+      onExpand: () => this.expandFold(fold),
+    })));
   }
 
 
 
+  private isRejected(line: DiffLine): boolean {
+    return line.hunk !== undefined && this.rejectedHunks.has(line.hunk);
+  }
+
+  /** 採用したハンクだけを反映した、置換に使うコード */
+  private resultCode(): string {
+    return applyDiffHunks(calculateDiff(this.opts.original, this.currentCode), this.rejectedHunks);
+  }
+
+  private toggleHunk(hunk: number, accepted: boolean): void {
+    if (accepted) this.rejectedHunks.delete(hunk);
+    else this.rejectedHunks.add(hunk);
+    this.updateDiffDisplay();
+    this.refreshResult(this.rejectedHunks.size > 0 ? "採用した変更" : "修正後のコード");
+  }
+
+  /** 結果のコードを描画し直し、検証が通るまで置換ボタンを止める */
+  private refreshResult(label: string): void {
+    const code = this.resultCode();
+    void this.renderComparison(code, label);
+    void this.validateCode(code);
+  }
+
   private onCodeEdit(newCode: string): void {
-    // リアルタイムプレビュー更新
-    const renderContainer = this.renderPanel?.querySelector('.mermaid-fix-render') as HTMLElement;
-    if (renderContainer) {
-      this.renderMermaid(renderContainer, newCode, "編集されたコード");
-    }
-    
-    // エラーチェック
-    this.validateCode(newCode);
+    this.currentCode = newCode;
+    this.rejectedHunks.clear();
+    this.updateEditorButtons();
+    this.updateCandidateButtons();
+
+    // リアルタイムプレビュー更新とエラーチェック
+    this.refreshResult("編集されたコード");
     
-    // 行内差分モードの場合は差分表示も更新
-    if (this.currentMode === 'inline') {
-      this.updateDiffDisplay();
-    }
+    // 差分表示も更新（左右比較モードでは元のコード側の強調）
+    this.updateDiffDisplay();
   }
 
   private async validateCode(code: string): Promise<void> {
-    try {
-      const m: any = (window as any).mermaid;
-      if (!m) return;
-      
-      await m.parse(code);
+    const seq = ++this.validateSeq;
+    this.setApplyEnabled(false, "検証中…");
+    this.setValidationStatus("pending", "検証中…");
+    const result = await validateMermaidAsync(code);
+    // 検証中に次の変更があれば古い結果は捨てる
+    if (seq !== this.validateSeq) return;
+    if (result.ok) {
+      this.lastError = null;
       this.clearErrorDisplay();
-    } catch (error: any) {
-      this.showErrorDisplay(error.message || '構文エラーが発生しました');
+      this.setApplyEnabled(true);
+      this.setValidationStatus("ok", "✓ 構文OK");
+      this.editor?.setErrorLine(null);
+    } else {
+      const error = result.error || '構文エラーが発生しました';
+      const line = parseErrorLine(error);
+      this.lastError = error;
+      this.showErrorDisplay(error);
+      this.setApplyEnabled(false, "構文エラーがあるため適用できません");
+      this.setValidationStatus("error", line ? `✕ ${line}行目で構文エラー` : "✕ 構文エラー");
+      // 一部のハンクを戻したコードではエディタと行番号が合わないので印を付けない
+      this.editor?.setErrorLine(this.rejectedHunks.size === 0 ? line : null);
     }
+    this.updateEditorButtons();
+  }
+
+  private setValidationStatus(state: "pending" | "ok" | "error", text: string): void {
+    if (!this.validationStatusEl) return;
+    this.validationStatusEl.className = `mermaid-fix-validation-status is-${state}`;
+    this.validationStatusEl.textContent = text;
+  }
+
+  /** 複数の修正案を切り替えるボタン。切り替えはエディタへの編集として扱う（取り消し可能） */
+  private createCandidateSelector(): HTMLElement | null {
+    const alternatives = this.opts.alternatives ?? [];
+    if (alternatives.length < 2) return null;
+    const selector = document.createElement("div");
+    selector.className = "mermaid-fix-candidates";
+    const label = document.createElement("span");
+    label.className = "mermaid-fix-candidates-label";
+    label.textContent = "修正候補:";
+    selector.appendChild(label);
+    this.candidateButtons = alternatives.map((code, i) => {
+      const button = document.createElement("button");
+      button.className = "mermaid-fix-mode-btn";
+      button.textContent = i === 0 ? "候補1（変更が最小）" : `候補${i + 1}`;
+      button.title = `元のコードからの変更: ${editDistance(this.opts.original, code)} 文字`;
+      button.onclick = () => { if (this.currentCode !== code) this.editor?.setValue(code); };
+      selector.appendChild(button);
+      return { code, button };
+    });
+    this.updateCandidateButtons();
+    return selector;
+  }
+
+  private updateCandidateButtons(): void {
+    this.candidateButtons.forEach(({ code, button }) => button.classList.toggle("active", code === this.currentCode));
+  }
+
+  /** 修正後のコード欄の上に並べる、取り消し・やり直し・検証状態・LLM への再依頼 */
+  private createEditorToolbar(): HTMLElement {
+    const toolbar = document.createElement("div");
+    toolbar.className = "mermaid-fix-editor-toolbar";
+    const createToolButton = (text: string, title: string, onClick: () => void) => {
+      const btn = document.createElement("button");
+      btn.textContent = text;
+      btn.title = title;
+      btn.className = "mermaid-fix-editor-btn";
+      btn.onclick = onClick;
+      toolbar.appendChild(btn);
+      return btn;
+    };
+    this.undoBtn = createToolButton("↶", "元に戻す (Ctrl/Cmd+Z)", () => { this.editor?.undo(); });
+    this.redoBtn = createToolButton("↷", "やり直す (Ctrl/Cmd+Shift+Z)", () => { this.editor?.redo(); });
+    this.validationStatusEl = document.createElement("span");
+    this.validationStatusEl.className = "mermaid-fix-validation-status";
+    toolbar.appendChild(this.validationStatusEl);
+    if (this.opts.onRefine) {
+      this.refineBtn = createToolButton("編集内容でLLMに再依頼", "編集したコードと今のエラーを渡して、もう一度修正を依頼します", () => { void this.refine(); });
+    }
+    this.updateEditorButtons();
+    return toolbar;
+  }
+
+  private updateEditorButtons(): void {
+    if (this.undoBtn) this.undoBtn.disabled = !this.editor?.canUndo;
+    if (this.redoBtn) this.redoBtn.disabled = !this.editor?.canRedo;
+    if (this.refineBtn) this.refineBtn.disabled = this.refining || this.lastError === null;
+  }
+
+  /** 編集したコードと今のエラーを LLM に渡し、返ってきたコードでエディタを置き換える（取り消し可能） */
+  private async refine(): Promise<void> {
+    if (!this.opts.onRefine || this.lastError === null || this.refining) return;
+    this.refining = true;
+    this.updateEditorButtons();
+    if (this.refineBtn) this.refineBtn.textContent = "再依頼中…";
+    try {
+      const code = await this.opts.onRefine(this.resultCode(), this.lastError);
+      this.editor?.setValue(code);
+    } catch (e) {
+      this.showErrorDisplay(`LLMへの再依頼に失敗しました: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      this.refining = false;
+      if (this.refineBtn) this.refineBtn.textContent = "編集内容でLLMに再依頼";
+      this.updateEditorButtons();
+    }
+  }
+
+  private setApplyEnabled(enabled: boolean, reason = ""): void {
+    this.applyButtons.forEach(btn => {
+      btn.disabled = !enabled;
+      btn.title = reason;
+    });
   }
 
   private showErrorDisplay(errorMessage: string): void {
@@ -332,16 +777,34 @@ export class FixPreviewModal {
     rightElement.addEventListener('scroll', () => syncScroll(rightElement, leftElement));
   }
 
-  private async renderMermaid(container: HTMLElement, code: string, label: string): Promise<void> {
+  /** 元の図と修正後の図を描画し、両方描けたら構造の差分を強調する */
+  private async renderComparison(proposed: string, label: string): Promise<void> {
+    if (!this.originalRender || !this.proposedRender) return;
+    const seq = ++this.renderSeq;
+    this.originalRendering ??= this.renderMermaid(this.originalRender, this.opts.original, "元のコード");
+    const [originalOk, proposedOk] = await Promise.all([
+      this.originalRendering,
+      this.renderMermaid(this.proposedRender, proposed, label),
+    ]);
+    // 編集が続いている間は最後の描画だけを反映する
+    if (seq !== this.renderSeq) return;
+    this.showGraphDiff(originalOk && proposedOk ? proposed : null);
+  }
+
+  /** 描画できたら true。失敗した場合はエラー行を強調したコードを表示する */
+  private async renderMermaid(container: HTMLElement, code: string, label: string): Promise<boolean> {
+    const id = `mermaid-${Math.random().toString(36).slice(2)}`;
+    container.dataset.renderId = id;
     try {
       const m: any = (window as any).mermaid;
       if (!m) {
         container.innerHTML = '<div style="color: var(--text-muted);">Mermaid が利用できません</div>';
-        return;
+        return false;
       }
-      const id = `mermaid-${Math.random().toString(36).slice(2)}`;
-      container.innerHTML = `<div class="mermaid" data-render-id="${id}"></div>`;
       const result = await m.render(id, code);
+      // 後から始まった描画があればそちらに任せる
+      if (container.dataset.renderId !== id) return false;
+      container.innerHTML = `<div class="mermaid" data-render-id="${id}"></div>`;
       if (result && result.svg) {
         const wrapper = container.querySelector('.mermaid');
         if (wrapper) (wrapper as HTMLElement).innerHTML = result.svg;
@@ -354,12 +817,108 @@ export class FixPreviewModal {
           (svg as SVGSVGElement).style.display = 'block';
           (svg as SVGSVGElement).style.margin = '0 auto';
         }
-      } else {
-        container.innerHTML = `<div style="color: var(--text-error);">レンダリングに失敗しました</div>`;
+        return true;
       }
+      container.innerHTML = `<div style="color: var(--text-error);">レンダリングに失敗しました</div>`;
+      return false;
     } catch (error) {
       console.error(`Mermaid rendering error for ${label}:`, error);
-      container.innerHTML = `<div style=\"color: var(--text-error);\">レンダリングエラー: ${error instanceof Error ? error.message : String(error)}</div>`;
+      // mermaid.render が body 直下に残すエラー表示を掃除
+      document.getElementById(`d${id}`)?.remove();
+      if (container.dataset.renderId === id) this.renderErrorDetail(container, code, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  /** エラーメッセージと、失敗した行を強調したコード */
+  private renderErrorDetail(container: HTMLElement, code: string, message: string): void {
+    container.innerHTML = '';
+    const box = document.createElement("div");
+    box.className = "mermaid-fix-render-error";
+    const messageEl = document.createElement("div");
+    messageEl.className = "mermaid-fix-render-error-message";
+    messageEl.textContent = `レンダリングエラー: ${message}`;
+    box.appendChild(messageEl);
+
+    const errorLine = parseErrorLine(message);
+    const codeEl = document.createElement("div");
+    codeEl.className = "mermaid-fix-render-error-code";
+    const lines = code.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      const text = lines[i];
+      const lineEl = document.createElement("div");
+      lineEl.className = "mermaid-fix-diff-line";
+      const lineNumber = document.createElement("span");
+      lineNumber.className = "mermaid-fix-diff-line-number";
+      lineNumber.textContent = String(i + 1);
+      const content = document.createElement("span");
+      content.textContent = text;
+      lineEl.appendChild(lineNumber);
+      lineEl.appendChild(content);
+      if (errorLine === i + 1) lineEl.classList.add("is-error-line");
+      codeEl.appendChild(lineEl);
+    }
+    box.appendChild(codeEl);
+    container.appendChild(box);
+    codeEl.querySelector(".is-error-line")?.scrollIntoView({ block: "center" });
+  }
+
+  /** 追加・削除・変更されたノードと接続を図の上で色分けし、件数を表示する。proposed が null なら消す */
+  private showGraphDiff(proposed: string | null): void {
+    const roots = [this.originalRender, this.proposedRender];
+    roots.forEach(root => root?.querySelectorAll(".mermaid-diff-added, .mermaid-diff-removed, .mermaid-diff-changed")
+      .forEach(el => el.classList.remove("mermaid-diff-added", "mermaid-diff-removed", "mermaid-diff-changed")));
+    const summary = this.graphDiffEl;
+    if (!summary) return;
+    summary.style.display = "none";
+    summary.innerHTML = '';
+    if (proposed === null) return;
+    const before = parseDiagramGraph(this.opts.original);
+    const after = parseDiagramGraph(proposed);
+    if (!before || !after || before.type !== after.type) return;
+
+    const diff = diffDiagramGraphs(before, after);
+    this.markGraphDiff(diff, this.opts.original, proposed);
+    summary.style.display = "";
+    if (isEmptyGraphDiff(diff)) {
+      summary.textContent = "構造の変化なし（ノードと接続は同じです）";
+      return;
+    }
+    const edgeName = after.type === "sequenceDiagram" ? "メッセージ" : "接続";
+    const head = document.createElement("div");
+    head.textContent = `ノード +${diff.addedNodes.length} −${diff.removedNodes.length} ~${diff.relabeledNodes.length} ／ ${edgeName} +${diff.addedEdges.length} −${diff.removedEdges.length}`;
+    summary.appendChild(head);
+
+    const name = (graph: DiagramGraph, id: string) => graph.nodes.get(id) ?? id;
+    const items: { cls: string; text: string }[] = [
+      ...diff.addedNodes.map(id => ({ cls: "added", text: `+ ノード ${name(after, id)}` })),
+      ...diff.removedNodes.map(id => ({ cls: "removed", text: `− ノード ${name(before, id)}` })),
+      ...diff.relabeledNodes.map(id => ({ cls: "changed", text: `~ ノード ${name(before, id)} → ${name(after, id)}` })),
+      ...diff.addedEdges.map(e => ({ cls: "added", text: `+ ${edgeName} ${name(after, e.from)} → ${name(after, e.to)}${e.label ? `（${e.label}）` : ""}` })),
+      ...diff.removedEdges.map(e => ({ cls: "removed", text: `− ${edgeName} ${name(before, e.from)} → ${name(before, e.to)}${e.label ? `（${e.label}）` : ""}` })),
+    ];
+    const list = document.createElement("ul");
+    items.forEach(({ cls, text }) => {
+      const li = document.createElement("li");
+      li.className = `mermaid-fix-graph-diff-${cls}`;
+      li.textContent = text;
+      list.appendChild(li);
+    });
+    summary.appendChild(list);
+  }
+
+  private markGraphDiff(diff: GraphDiff, original: string, proposed: string): void {
+    const mark = (els: Element[], cls: string) => els.forEach(el => el.classList.add(cls));
+    const originalRoot = this.originalRender?.querySelector("svg");
+    const proposedRoot = this.proposedRender?.querySelector("svg");
+    if (originalRoot) {
+      mark(findNodeElements(originalRoot, original, diff.removedNodes), "mermaid-diff-removed");
+      diff.removedEdges.forEach(e => mark(findEdgeElements(originalRoot, e.from, e.to), "mermaid-diff-removed"));
+    }
+    if (proposedRoot) {
+      mark(findNodeElements(proposedRoot, proposed, diff.addedNodes), "mermaid-diff-added");
+      mark(findNodeElements(proposedRoot, proposed, diff.relabeledNodes), "mermaid-diff-changed");
+      diff.addedEdges.forEach(e => mark(findEdgeElements(proposedRoot, e.from, e.to), "mermaid-diff-added"));
     }
   }
 
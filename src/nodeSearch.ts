@@ -0,0 +1,102 @@
+// ズーム表示中の図からノード・エッジラベル・参加者を検索してハイライトする
+import { PanZoomState, Rect, Size, zoomToRect } from "./gestures";
+
+export type SearchTarget = { el: Element; label: string; id: string };
+
+const TARGET_SELECTOR = [
+  "g.node",          // flowchart / class / state のノード
+  "g.edgeLabel",     // エッジラベル
+  "g.cluster",       // subgraph
+  "text.actor",      // sequenceDiagram の参加者
+  "text.messageText", // sequenceDiagram のメッセージ
+].join(", ");
+
+const MATCH_CLASS = "mermaid-search-match";
+const CURRENT_CLASS = "mermaid-search-current";
+const MAX_FOCUS_ZOOM = 2.5;
+
+/** Mermaid が付ける DOM id（flowchart-A-12 等）から元のノードIDを取り出す */
+export function nodeIdOf(el: Element): string {
+  const raw = el.getAttribute("data-id") ?? el.id ?? "";
+  // 新しい Mermaid は先頭に SVG の id を付ける（mermaid-123-flowchart-A-0）
+  const m = raw.match(/(?:^|-)(?:flowchart|classId|state)-(.+?)-\d+$/);
+  return m ? m[1] : raw;
+}
+
+export function collectSearchTargets(root: Element): SearchTarget[] {
+  const targets: SearchTarget[] = [];
+  root.querySelectorAll(TARGET_SELECTOR).forEach((el) => {
+    const label = (el.textContent ?? "").replace(/\s+/g, " ").trim();
+    const id = nodeIdOf(el);
+    if (!label && !id) return;
+    targets.push({ el, label, id });
+  });
+  // 参加者は上下に同じ名前が2回描かれるので、同名は先頭だけ残す
+  const seenActors = new Set<string>();
+  return targets.filter((t) => {
+    if (!t.el.matches("text.actor")) return true;
+    if (seenActors.has(t.label)) return false;
+    seenActors.add(t.label);
+    return true;
+  });
+}
+
+/**
+ * rect（表示領域上の座標）を中心に表示する状態を返す。
+ * 小さい要素でも周囲が見える程度に余白を取り、拡大しすぎない。
+ */
+export function revealRect(state: PanZoomState, view: Size, rect: Rect): PanZoomState {
+  const pad = (len: number, min: number) => Math.max(len * 4, min);
+  const width = pad(rect.width, view.width / 4), height = pad(rect.height, view.height / 4);
+  const padded = { x: rect.x + rect.width / 2 - width / 2, y: rect.y + rect.height / 2 - height / 2, width, height };
+  const next = zoomToRect(state, view, padded);
+  if (next.zoom <= Math.max(MAX_FOCUS_ZOOM, state.zoom)) return next;
+  // 上限まで倍率を戻し、中心は保つ
+  const zoom = Math.max(MAX_FOCUS_ZOOM, state.zoom);
+  const cx = (view.width / 2 - next.panX) / next.zoom, cy = (view.height / 2 - next.panY) / next.zoom;
+  return { zoom, panX: view.width / 2 - cx * zoom, panY: view.height / 2 - cy * zoom };
+}
+
+/** 検索結果の保持とハイライト。現在の一致が変わるたびに onFocus を呼ぶ */
+export class NodeSearch {
+  private targets: SearchTarget[] | null = null;
+  private matches: SearchTarget[] = [];
+  private index = -1;
+
+  constructor(private root: Element, private onFocus: (el: Element) => void) {}
+
+  get count(): number { return this.matches.length; }
+  get position(): number { return this.index + 1; }
+
+  search(query: string): void {
+    this.clear();
+    const q = query.trim().toLowerCase();
+    if (!q) return;
+    this.targets ??= collectSearchTargets(this.root);
+    this.matches = this.targets.filter(t => t.label.toLowerCase().includes(q) || t.id.toLowerCase().includes(q));
+    this.matches.forEach(t => t.el.classList.add(MATCH_CLASS));
+    if (this.matches.length > 0) this.select(0);
+  }
+
+  next(): void {
+    if (this.matches.length > 0) this.select((this.index + 1) % this.matches.length);
+  }
+
+  previous(): void {
+    if (this.matches.length > 0) this.select((this.index - 1 + this.matches.length) % this.matches.length);
+  }
+
+  clear(): void {
+    this.matches.forEach(t => t.el.classList.remove(MATCH_CLASS, CURRENT_CLASS));
+    this.matches = [];
+    this.index = -1;
+  }
+
+  private select(i: number): void {
+    this.matches[this.index]?.el.classList.remove(CURRENT_CLASS);
+    this.index = i;
+    const el = this.matches[i].el;
+    el.classList.add(CURRENT_CLASS);
+    this.onFocus(el);
+  }
+}
@@ -1,23 +1,72 @@
-import { Plugin, Notice, PluginSettingTab, App, Setting, EventRef, MarkdownView, Editor, TFile, Modal } from "obsidian";
-import { MermaidZoomPluginSettings, DEFAULT_SETTINGS, MermaidBlock } from "./types";
-import { validateMermaidAsync, extractMermaidBlocks, hasMermaid, clamp } from "./utils";
-import { geminiFixWithBackoff, preserveInitIfNeeded } from "./gemini";
-import { FixPreviewModal } from "./modal";
-import { applyReplacementsReverse } from "./replacements";
+import { Extension } from "@codemirror/state";
+import { Plugin, Notice, PluginSettingTab, App, Setting, EventRef, MarkdownView, Editor, TFile, Modal, Menu, WorkspaceLeaf, debounce, moment, normalizePath } from "obsidian";
+import { MermaidZoomPluginSettings, DEFAULT_SETTINGS, MermaidBlock, FixHistoryEntry, LlmProviderId, ValidationIssue, ValidationScope, ExportFormat, ZoomBackground, ZoomMermaidTheme, OffsetRangeReplacement, BatchFileSnapshot, FixReportItem, JobScope } from "./types";
+import { validateMermaidAsync, extractMermaidBlocks, hasMermaid, blockLineRange, editDistance } from "./utils";
+import { fixCacheKey, llmFixCandidates, llmFixSingle, preserveInitIfNeeded } from "./gemini";
+import { runAutoFix, AutoFixResult } from "./autofix";
+import { ZoomViewer, createElement, createButton } from "./zoomViewer";
+import { MermaidZoomView, MermaidZoomViewState, VIEW_TYPE_MERMAID_ZOOM } from "./zoomView";
+import { describeMermaidSource, describeRenderedSvg, trapFocus } from "./a11y";
+import { renderThemedDiagram, themedMermaidCode, zoomBackgroundColor, parseThemeVariables } from "./theme";
+import { cursorLineListener, findDefinitionLine, nodeIdOfElement, nodeIdsOnLine } from "./sourceLink";
+import { LlmProvider, createLlmProvider } from "./providers";
+import { FixPreviewModal, FolderSuggestModal, JobStartModal, JobSummaryModal } from "./modal";
+import { JobRunner, filterFilesByScope } from "./jobs";
+import { applyReplacementsReverse, applyReplacementsChecked } from "./replacements";
+import { BatchSnapshotStore } from "./snapshots";
+import { buildFixReport, parseFixReport, markReportItems, isFixReport, REPORT_APPLIED_NOTE } from "./report";
+import { MermaidErrorView, VIEW_TYPE_MERMAID_ERRORS } from "./errorView";
+import { FixHistoryStore } from "./fixHistory";
+import { LlmScheduler, diffLlmUsage, formatLlmUsage } from "./llmScheduler";
+import { MermaidFixHistoryView, VIEW_TYPE_MERMAID_FIX_HISTORY } from "./historyView";
+import { mermaidLintExtension } from "./lint";
+import { mermaidDiagramType, mermaidFenceHighlighter } from "./mermaidSyntax";
+import { MermaidEditorSuggest } from "./mermaidSuggest";
+import { BulkExporter, collectMarkdownFiles } from "./bulkExport";
+import { serializeSvgForExport, rasterizeSvg, canvasToBlob, renderExportData, renderMermaidOffscreen, formatExportFileName } from "./export";
 
 export default class MermaidZoomPlugin extends Plugin {
-  private currentModal: HTMLElement | null = null;
+  private closeZoomModal: (() => void) | null = null;
   settings: MermaidZoomPluginSettings;
   private fileOpenRef: EventRef | null = null;
+  // registerEditorExtension に渡した配列。中身を差し替えて updateOptions で反映する
+  private editorExtensions: Extension[] = [];
+  private jobRunner: JobRunner;
+  // 検証に通った LLM 修正の履歴。同じ壊れ方の図にはキャッシュとして使う
+  fixHistory: FixHistoryStore;
+  // LLM 呼び出しはすべてこれを通し、レート制限・再試行・使用量の集計を行う
+  readonly llmScheduler = new LlmScheduler(() => ({
+    requestsPerMinute: this.settings.llmRequestsPerMinute,
+    concurrency: this.settings.llmConcurrency,
+    maxRetries: this.settings.llmMaxRetries,
+  }));
 
   async onload() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.fixHistory = new FixHistoryStore(this.app, this.pluginDir(), () => this.settings.fixCacheMaxEntries);
+    await this.fixHistory.load();
     await this.injectCss();
     this.addSettingTab(new MermaidZoomSettingTab(this.app, this));
+    this.jobRunner = new JobRunner(this.addStatusBarItem());
+    this.registerEditorExtension(this.editorExtensions);
+    this.updateEditorExtensions();
+    this.registerEditorSuggest(new MermaidEditorSuggest(this.app, () => this.settings));
+    this.registerView(VIEW_TYPE_MERMAID_FIX_HISTORY, (leaf) => new MermaidFixHistoryView(leaf, {
+      store: this.fixHistory,
+      reapply: (entry) => this.reapplyHistoryFix(entry),
+      openFile: async (path) => { await this.app.workspace.openLinkText(path, "", false); },
+    }));
+    this.registerView(VIEW_TYPE_MERMAID_ERRORS, (leaf) => new MermaidErrorView(leaf, (file) => this.collectFileIssues(file)));
+    this.registerView(VIEW_TYPE_MERMAID_ZOOM, (leaf) => new MermaidZoomView(leaf, {
+      settings: this.settings,
+      saveSettings: () => this.saveData(this.settings),
+      createViewerActions: (getDiagram, locate) => this.createViewerActions(getDiagram, locate),
+      revealNodeSource: (file, block, el) => this.revealNodeSource(file, block, el),
+    }));
 
     this.registerDomEvent(document, "click", (event) => {
       const target = event.target as HTMLElement;
-      if (target?.closest?.(".mermaid-zoom-modal")) return;
+      if (target?.closest?.(".mermaid-zoom-modal, .mermaid-zoom-view")) return;
       const mermaidElement = target?.closest?.(".mermaid") as HTMLElement | null;
       if (mermaidElement) {
         this.showPopup(mermaidElement, this.findMermaidSource(mermaidElement));
@@ -33,19 +82,97 @@ export default class MermaidZoomPlugin extends Plugin {
     });
     this.addCommand({
       id: "mermaid-fix-gemini",
-      name: "Mermaid: 構文エラーをGeminiで修正",
+      name: "Mermaid: 構文エラーをLLMで修正",
       icon: "sparkles",
       callback: async () => { await this.runFixWithGemini(); },
     });
+    this.addCommand({
+      id: "mermaid-fix-rules",
+      name: "Mermaid: 構文エラーをルールベースで修正（オフライン）",
+      icon: "wand",
+      callback: async () => { await this.runFixWithRules(); },
+    });
     this.addCommand({
       id: "mermaid-validate-all",
       name: "Mermaid: 全ファイルの構文エラー検出",
       icon: "search",
       callback: async () => { await this.runValidateAllFiles(); },
     });
+    this.addCommand({
+      id: "mermaid-fix-gemini-all-dry-run",
+      name: "Mermaid: 全ファイル修正のドライラン（レポート作成）",
+      icon: "file-search",
+      callback: async () => { await this.runFixAllFilesWithGemini({ dryRun: true }); },
+    });
+    this.addCommand({
+      id: "mermaid-apply-fix-report",
+      name: "Mermaid: レポートのチェック済み修正を適用",
+      icon: "check-square",
+      callback: async () => { await this.runApplyFixReport(); },
+    });
+    this.addCommand({
+      id: "mermaid-cancel-job",
+      name: "Mermaid: 実行中の全ファイル処理を中断",
+      icon: "x",
+      checkCallback: (checking) => {
+        if (!this.jobRunner.busy) return false;
+        if (!checking) this.jobRunner.cancelCurrent();
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "mermaid-revert-last-batch",
+      name: "Mermaid: 直前の全ファイル一括修正を取り消す",
+      icon: "undo",
+      callback: async () => { await this.runRevertLastBatch(); },
+    });
+    this.addCommand({
+      id: "mermaid-export-block",
+      name: "Mermaid: カーソル位置の図をファイルにエクスポート",
+      icon: "download",
+      callback: async () => { await this.runExportBlockAtCursor(); },
+    });
+    this.addCommand({
+      id: "mermaid-bulk-export-note",
+      name: "Mermaid: ノート内の図を一括エクスポート",
+      icon: "download",
+      callback: async () => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md") { new Notice("アクティブなMarkdownノートが見つかりません。"); return; }
+        await this.runBulkExport([file], file.path);
+      },
+    });
+    this.addCommand({
+      id: "mermaid-bulk-export-folder",
+      name: "Mermaid: フォルダ内の図を一括エクスポート",
+      icon: "download",
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) => {
+          void this.runBulkExport(collectMarkdownFiles(folder), folder.isRoot() ? "/" : folder.path);
+        }).open();
+      },
+    });
+    this.addCommand({
+      id: "mermaid-open-zoom-tab",
+      name: "Mermaid: カーソル位置の図をタブで拡大表示",
+      icon: "zoom-in",
+      callback: async () => { await this.runOpenZoomTabAtCursor(); },
+    });
+    this.addCommand({
+      id: "mermaid-open-error-panel",
+      name: "Mermaid: エラーパネルを開く",
+      icon: "alert-triangle",
+      callback: async () => { await this.activateErrorView(); },
+    });
+    this.addCommand({
+      id: "mermaid-open-fix-history",
+      name: "Mermaid: 修正履歴を開く",
+      icon: "history",
+      callback: async () => { await this.activateFixHistoryView(); },
+    });
     this.addCommand({
       id: "mermaid-fix-gemini-all",
-      name: "Mermaid: 全ファイルの構文エラーをGeminiで修正",
+      name: "Mermaid: 全ファイルの構文エラーをLLMで修正",
       icon: "sparkles",
       callback: async () => { await this.runFixAllFilesWithGemini(); },
     });
@@ -55,18 +182,47 @@ export default class MermaidZoomPlugin extends Plugin {
       await this.runValidateOnly();
     });
 
-    this.addRibbonIcon("sparkles", "Mermaid: 構文エラーをGeminiで修正", async () => {
+    this.addRibbonIcon("sparkles", "Mermaid: 構文エラーをLLMで修正", async () => {
       await this.runFixWithGemini();
     });
   }
 
   onunload() {
+    this.jobRunner?.cancelCurrent();
+    this.closeZoomModal?.();
     if (this.fileOpenRef) {
       this.app.workspace.offref(this.fileOpenRef);
       this.fileOpenRef = null;
     }
   }
 
+  /** 設定に応じてエディタ拡張を入れ替える */
+  updateEditorExtensions() {
+    this.editorExtensions.length = 0;
+    if (this.settings.liveLint) this.editorExtensions.push(mermaidLintExtension());
+    if (this.settings.editorHighlight) this.editorExtensions.push(mermaidFenceHighlighter());
+    this.editorExtensions.push(cursorLineListener(this.highlightCursorNodes));
+    this.app.workspace.updateOptions();
+  }
+
+  /** カーソル行が参照するノードを、同じブロックを表示しているタブで強調する */
+  private highlightCursorNodes = debounce((path: string, getText: () => string, line: number) => {
+    const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_MERMAID_ZOOM);
+    if (leaves.length === 0) return;
+    const text = getText();
+    let hit: { index: number; ids: string[] } | null = null;
+    for (const b of extractMermaidBlocks(text)) {
+      const { startLine, endLine } = blockLineRange(text, b);
+      if (line < startLine || line > endLine) continue;
+      hit = { index: b.index, ids: nodeIdsOnLine(b.code, line - startLine) };
+      break;
+    }
+    for (const leaf of leaves) {
+      if (!(leaf.view instanceof MermaidZoomView)) continue;
+      leaf.view.highlightFromSource(path, hit?.index ?? -1, hit?.ids ?? []);
+    }
+  }, 150, true);
+
   private async injectCss() {
     const styleId = "mermaid-zoom-plugin-styles";
     if (document.getElementById(styleId)) return;
@@ -95,7 +251,11 @@ export default class MermaidZoomPlugin extends Plugin {
   }
 
   private async showPopup(element: HTMLElement, sourceCodeEl: HTMLElement | null) {
-    if (this.currentModal) this.currentModal.remove();
+    if (this.settings.zoomOpenMode === "tab") {
+      const { file, block } = await this.locateBlock(element, sourceCodeEl);
+      if (file && block) { await this.openZoomTab(file, block.index); return; }
+    }
+    this.closeZoomModal?.();
 
     const fixBackdrop = document.querySelector('.mermaid-fix-backdrop') as HTMLElement | null;
     const fixModal = document.querySelector('.mermaid-fix-modal') as HTMLElement | null;
@@ -114,30 +274,20 @@ export default class MermaidZoomPlugin extends Plugin {
     };
     await retreatOnce();
 
-    let zoomLevel = 1, isPanning = false, panX = 0, panY = 0, lastMouseX = 0, lastMouseY = 0;
-    const modal = this.createElement("div", "mermaid-zoom-modal");
-    const content = this.createElement("div", "mermaid-zoom-content");
-    const clonedElement = element.cloneNode(true) as HTMLElement;
-    clonedElement.className = "mermaid-zoom-clone";
-    const themeClass = document.body.classList.contains("theme-dark") ? "theme-dark" : "theme-light";
-    clonedElement.classList.add(themeClass);
-    clonedElement.querySelector("svg")?.classList.add(themeClass);
-
-    // 配置と原点を左上に固定し、ズレを防止
-    (content as HTMLElement).style.position = "relative";
-    Object.assign(clonedElement.style, {
-      position: "absolute",
-      top: "0",
-      left: "0",
-      transformOrigin: "0 0",
-    } as Partial<CSSStyleDeclaration>);
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const modal = createElement("div", "mermaid-zoom-modal");
+    modal.setAttribute("role", "dialog");
+    modal.setAttribute("aria-modal", "true");
+    modal.setAttribute("aria-label", "Mermaid図の拡大表示");
 
     const closeModal = () => {
+      viewer.destroy();
       modal.remove();
       document.removeEventListener("keydown", handleKeyDown);
       if (this.fileOpenRef) this.app.workspace.offref(this.fileOpenRef);
-      this.currentModal = null;
+      this.closeZoomModal = null;
       document.body.classList.remove("mermaid-zoom-active");
+      if (previousFocus?.isConnected) previousFocus.focus();
       // 退避クラスを解除して修正モーダルの操作を復帰
       try {
         fixBackdrop?.classList.remove('mermaid-fix-retreating');
@@ -145,110 +295,151 @@ export default class MermaidZoomPlugin extends Plugin {
       } catch {}
     };
 
-    const toolbar = this.createToolbar(closeModal, () => this.copyAsSvg(element), () => this.copyAsPng(element));
-    const { zoomInButton, zoomOutButton, zoomDisplay, resetZoomButton } = this.createZoomControls(
-      () => zoomLevel,
-      (newZoom, newPanX = 0, newPanY = 0) => {
-        zoomLevel = newZoom;
-        panX = newPanX;
-        panY = newPanY;
-        updateTransform();
+    const locate = () => this.locateBlock(element, sourceCodeEl);
+    const openInTabButton = createButton("⧉", "タブで開く", async () => {
+      const { file, block } = await locate();
+      if (!file || !block) { new Notice("対応するMermaidブロックが見つかりませんでした。"); return; }
+      closeModal();
+      await this.openZoomTab(file, block.index);
+    });
+    const closeButton = createButton("✖", "閉じる", closeModal);
+    // テーマを指定している場合は図を描き直すので、コピー・保存も表示中の図から行う
+    let themed = false;
+    const viewer: ZoomViewer = new ZoomViewer(modal, element, {
+      settings: this.settings,
+      saveSettings: () => this.saveData(this.settings),
+      actions: [...this.createViewerActions(() => themed ? viewer.diagramElement : element, locate), openInTabButton, closeButton],
+      onLinkClick: (target, newLeaf) => {
+        const fromPath = this.app.workspace.getActiveFile()?.path ?? "";
+        this.app.workspace.openLinkText(target, fromPath, newLeaf);
+        closeModal();
+      },
+      onNodeActivate: async (el) => {
+        const { file, block } = await locate();
+        if (!file || !block) { new Notice("対応するMermaidブロックが見つかりませんでした。"); return; }
+        closeModal();
+        await this.revealNodeSource(file, block, el);
+      },
+    });
+    modal.setAttribute("aria-describedby", viewer.description.id);
+    viewer.setDescription(describeRenderedSvg(element.querySelector("svg")));
+    void locate().then(async ({ block }) => {
+      if (!block) return;
+      viewer.setDescription(describeMermaidSource(block.code));
+      if (!themedMermaidCode(block.code, this.settings)) return;
+      try {
+        const diagram = await renderThemedDiagram(block.code, this.settings);
+        if (!modal.isConnected) return;
+        viewer.setDiagram(diagram);
+        themed = true;
+      } catch (e) {
+        console.warn("Mermaid Zoom Plugin: テーマを適用した再描画に失敗しました:", e);
       }
-    );
-    toolbar.append(zoomOutButton, zoomDisplay, zoomInButton, resetZoomButton);
-    content.appendChild(clonedElement);
-    modal.append(toolbar, content);
+    });
 
     document.body.classList.add("mermaid-zoom-active");
     document.body.appendChild(modal);
-    this.currentModal = modal;
+    this.closeZoomModal = closeModal;
 
     this.fileOpenRef = this.app.workspace.on("file-open", () => closeModal());
-    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && closeModal();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // エクスポートメニュー表示中はメニュー側のキー操作を優先
+      if (document.body.querySelector(".menu")) return;
+      if (viewer.handleKeyDown(e)) return;
+      if (e.key === "Escape") { closeModal(); return; }
+      trapFocus(modal, e);
+    };
     document.addEventListener("keydown", handleKeyDown);
     modal.addEventListener("click", (e) => e.target === modal && closeModal());
 
-    content.addEventListener("click", (e) => {
-      const link = (e.target as HTMLElement)?.closest("a.internal-link, .internal-link, a[data-href], [data-href]");
-      if (!link) return;
-      e.preventDefault();
-      e.stopPropagation();
-      const getHref = (el: Element): string | null => el.getAttribute("data-href") || el.getAttribute("href") || (el as any).href?.baseVal || el.getAttribute("xlink:href");
-      const target = getHref(link);
-      if (!target) return;
-      const fromPath = this.app.workspace.getActiveFile()?.path ?? "";
-      const newLeaf = (e as MouseEvent).ctrlKey || (e as MouseEvent).metaKey;
-      this.app.workspace.openLinkText(target, fromPath, newLeaf);
-      closeModal();
+    requestAnimationFrame(() => {
+      viewer.layout();
+      viewer.focus();
     });
+  }
 
-    const updateTransform = () => {
-      clonedElement.style.transform = `translate(${panX}px, ${panY}px) scale(${zoomLevel})`;
-      zoomDisplay.textContent = `${Math.round(zoomLevel * 100)}%`;
-    };
+  /** 拡大表示ツールバーのコピー・保存ボタン（オーバーレイとタブで共用） */
+  createViewerActions(getDiagram: () => HTMLElement, locate: () => Promise<{ file: TFile | null; block: MermaidBlock | null }>): HTMLElement[] {
+    const copySvgButton = createButton("SVG", "SVGをコピー", () => this.copyAsSvg(getDiagram(), zoomBackgroundColor(this.settings)));
+    const copyPngButton = createButton("PNG", "PNGをコピー", () => this.copyAsPng(getDiagram(), zoomBackgroundColor(this.settings)));
+    const exportButton: HTMLButtonElement = createButton("保存", "Vaultにファイルとして保存", () => {
+      this.showExportMenu(exportButton, async (format) => {
+        const srcSvg = getDiagram().querySelector("svg");
+        if (!srcSvg) { new Notice("SVG要素が見つかりませんでした。"); return; }
+        const { file, block } = await locate();
+        await this.exportSvgToVault(srcSvg as SVGSVGElement, format, file, block, zoomBackgroundColor(this.settings));
+      });
+    });
+    exportButton.setAttribute("aria-haspopup", "menu");
+    return [copySvgButton, copyPngButton, exportButton];
+  }
+
+  /** 開いているタブ表示に背景・テーマの設定を反映する */
+  refreshZoomViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_MERMAID_ZOOM)) {
+      if (leaf.view instanceof MermaidZoomView) void leaf.view.refreshTheme();
+    }
+  }
 
-    content.addEventListener('mousedown', (e) => { if ((e.target as HTMLElement)?.closest('a')) return; isPanning = true; content.classList.add('grabbing'); lastMouseX = e.pageX; lastMouseY = e.pageY; });
-    content.addEventListener('mouseup', () => { isPanning = false; content.classList.remove('grabbing'); });
-    content.addEventListener('mouseleave', () => { isPanning = false; content.classList.remove('grabbing'); });
-    content.addEventListener('mousemove', (e) => { if (!isPanning) return; e.preventDefault(); panX += e.pageX - lastMouseX; panY += e.pageY - lastMouseY; lastMouseX = e.pageX; lastMouseY = e.pageY; updateTransform(); });
-    content.addEventListener("wheel", (e) => {
-      e.preventDefault();
-      const rect = content.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left;
-      const mouseY = e.clientY - rect.top;
-
-      const old = zoomLevel;
-      const zoomFactor = e.deltaY < 0 ? 1.2 : 1 / 1.2; // 乗算型ズーム
-      const next = clamp(old * zoomFactor, 0.1, 10);
-
-      // ズーム前ローカル座標（逆変換）を保持
-      const localX = (mouseX - panX) / old;
-      const localY = (mouseY - panY) / old;
-
-      // 同一点がカーソル下に来るようpanを再計算
-      panX = mouseX - localX * next;
-      panY = mouseY - localY * next;
-      zoomLevel = next;
-      updateTransform();
-    }, { passive: false });
+  /** 図をタブで開く。同じブロックのタブが既にあればそれを表示する */
+  async openZoomTab(file: TFile, blockIndex: number) {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_MERMAID_ZOOM).find((leaf) => {
+      const state = leaf.getViewState().state as Partial<MermaidZoomViewState> | undefined;
+      return state?.file === file.path && state?.blockIndex === blockIndex;
+    });
+    const leaf = existing ?? this.app.workspace.getLeaf("split", "vertical");
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_MERMAID_ZOOM, active: true, state: { file: file.path, blockIndex } });
+    this.app.workspace.revealLeaf(leaf);
+  }
 
-    requestAnimationFrame(() => {
-      const contentRect = content.getBoundingClientRect();
-      const cloneRect = clonedElement.getBoundingClientRect();
-      zoomLevel = Math.min(
-        contentRect.width / cloneRect.width,
-        contentRect.height / cloneRect.height
-      ) * 0.95;
-      // 中央寄せして初期表示を安定させる
-      panX = (contentRect.width - cloneRect.width * zoomLevel) / 2;
-      panY = (contentRect.height - cloneRect.height * zoomLevel) / 2;
-      updateTransform();
-    });
-  }
-
-  private createElement<K extends keyof HTMLElementTagNameMap>(tagName: K, className: string): HTMLElementTagNameMap[K] { const el = document.createElement(tagName); el.className = className; return el; }
-  private createToolbar(onClose: () => void, onCopySvg: () => void, onCopyPng: () => void): HTMLElement {
-    const toolbar = this.createElement("div", "mermaid-zoom-toolbar");
-    const closeButton = this.createButton("✖", "閉じる", onClose);
-    const copySvgButton = this.createButton("SVG", "SVGをコピー", onCopySvg);
-    const copyPngButton = this.createButton("PNG", "PNGをコピー", onCopyPng);
-    toolbar.append(copySvgButton, copyPngButton, closeButton);
-    return toolbar;
-  }
-  private createZoomControls(getZoom: () => number, onZoom: (zoom: number, panX?: number, panY?: number) => void) {
-    const zoomOutButton = this.createButton("－", "縮小", () => onZoom(clamp(getZoom() - 0.2, 0.1, 10)));
-    const zoomInButton = this.createButton("＋", "拡大", () => onZoom(clamp(getZoom() + 0.2, 0.1, 10)));
-    const resetZoomButton = this.createButton("1:1", "リセット", () => onZoom(1.0, 0, 0));
-    const zoomDisplay = this.createElement("span", "zoom-display");
-    zoomDisplay.textContent = "100%";
-    return { zoomInButton, zoomOutButton, zoomDisplay, resetZoomButton };
-  }
-  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
-    const button = this.createElement("button", "");
-    button.textContent = text;
-    button.title = title;
-    button.addEventListener("click", (e) => { e.stopPropagation(); onClick(); });
-    return button;
+  /** エディタのカーソル位置（フェンス行を含む）にあるブロック */
+  private blockAtCursor(view: MarkdownView): MermaidBlock | null {
+    const text = view.editor.getValue();
+    const cursorLine = view.editor.getCursor().line;
+    return extractMermaidBlocks(text).find((b) => {
+      const { startLine, endLine } = blockLineRange(text, b);
+      return cursorLine >= startLine - 1 && cursorLine <= endLine + 1;
+    }) ?? null;
+  }
+
+  private async runOpenZoomTabAtCursor() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view || !view.file) { new Notice("アクティブなMarkdownノートが見つかりません。"); return; }
+    const block = this.blockAtCursor(view);
+    if (!block) { new Notice("カーソル位置にMermaidコードブロックがありません。"); return; }
+    await this.openZoomTab(view.file, block.index);
+  }
+
+  /** 図のノードを定義している行へエディタのカーソルを移動する */
+  async revealNodeSource(file: TFile, block: MermaidBlock, el: Element) {
+    const id = nodeIdOfElement(el, block.code);
+    if (!id) { new Notice("ノードIDを特定できませんでした。"); return; }
+
+    // 既に開いているタブがあれば再利用
+    let leaf: WorkspaceLeaf | null = null;
+    this.app.workspace.iterateAllLeaves((l) => {
+      if (!leaf && l.view instanceof MarkdownView && l.view.file?.path === file.path) leaf = l;
+    });
+    const dest: WorkspaceLeaf = leaf ?? this.app.workspace.getLeaf(false);
+    if (!leaf) await dest.openFile(file);
+    const view = dest.view;
+    if (!(view instanceof MarkdownView)) return;
+    // 閲覧モードではカーソルを置けないので編集モードに切り替える
+    if (view.getMode() === "preview") {
+      const state = dest.getViewState();
+      await dest.setViewState({ ...state, state: { ...state.state, mode: "source" } });
+    }
+    this.app.workspace.setActiveLeaf(dest, { focus: true });
+
+    // タブ表示中に編集されていることがあるので、現在の本文からブロックを取り直す
+    const text = view.editor.getValue();
+    const current = extractMermaidBlocks(text)[block.index] ?? block;
+    const defLine = findDefinitionLine(current.code, id);
+    if (defLine === null) { new Notice(`ノード「${id}」の定義行が見つかりませんでした。`); return; }
+    const line = blockLineRange(text, current).startLine + defLine;
+    const ch = Math.max(0, view.editor.getLine(line)?.search(/\S/) ?? 0);
+    view.editor.setCursor({ line, ch });
+    view.editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
   }
 
   private async runValidateOnly() {
@@ -260,26 +451,22 @@ export default class MermaidZoomPlugin extends Plugin {
     const blocks = extractMermaidBlocks(text);
     if (blocks.length === 0) { new Notice("Mermaid コードブロックは見つかりませんでした。"); return; }
 
-    const errors: { idx: number; msg: string }[] = [];
-    for (const b of blocks) {
-      const r = await validateMermaidAsync(b.code);
-      if (!r.ok) errors.push({ idx: b.index, msg: r.error ?? "構文エラー" });
-    }
+    const file = view.file;
+    const issues = await this.collectTextIssues(file?.path ?? "", text);
+    if (file) await this.showIssues({ kind: "file", path: file.path }, issues);
 
-    if (errors.length === 0) {
+    if (issues.length === 0) {
       new Notice(`検出完了: ${blocks.length}件中エラーなし。`);
     } else {
-      new Notice(`検出完了: エラー ${errors.length}件。詳細は開発者コンソールを確認してください。`, 6000);
-      console.group("Mermaid 構文エラー");
-      errors.forEach(e => console.log(`ブロック #${e.idx + 1}:`, e.msg));
-      console.groupEnd();
+      new Notice(`検出完了: エラー ${issues.length}件。詳細はエラーパネルを確認してください。`, 6000);
     }
   }
 
   private async runFixWithGemini() {
     const view = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!view) { new Notice("アクティブなMarkdownノートが見つかりません。"); return; }
-    if (!this.settings.geminiApiKey) { new Notice("Gemini APIキーが未設定です。設定画面から登録してください。", 6000); return; }
+    const { provider, error: providerError } = createLlmProvider(this.settings);
+    if (!provider) { new Notice(providerError ?? "LLMプロバイダの設定が不正です。", 6000); return; }
     if (!hasMermaid()) { new Notice("Mermaidライブラリがロードされていないため、構文を検証できません。"); return; }
 
     const editor = view.editor;
@@ -298,7 +485,7 @@ export default class MermaidZoomPlugin extends Plugin {
 
     if (errorBlocks.length === 0) { new Notice("検査完了: エラーのあるMermaidブロックは見つかりませんでした。"); return; }
 
-    new Notice(`エラーが${errorBlocks.length}件見つかりました。Geminiで修正を開始します。`);
+    new Notice(`エラーが${errorBlocks.length}件見つかりました。${provider.label}で修正を開始します。`);
 
     const replacements: { start: number; end: number; text: string }[] = [];
     let autoApply = this.settings.applyMode === "auto";
@@ -318,30 +505,46 @@ export default class MermaidZoomPlugin extends Plugin {
       if (cancelled || stopIfFileChanged()) { new Notice("処理を中断しました（ファイル変更）。"); break; }
 
       let currentCode = block.code, lastError = initialError, fixedCode: string | null = null, success = false;
+      // 候補モードで検証に通った修正案（元のコードに近い順）
+      let alternatives: string[] = [];
       const maxAttempts = 5;
 
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // まずルールベースで直せるか試す（LLM呼び出しを省ける）
+      const ruleFix = await this.tryRuleFix(block.code);
+      if (ruleFix.ok) {
+        new Notice(`#${block.index + 1}: ルールベース修正で解決しました（${ruleFix.fired.map(f => f.title).join("、")}）。`);
+        fixedCode = ruleFix.code;
+        success = true;
+      } else if (ruleFix.fired.length > 0) {
+        currentCode = ruleFix.code;
+        lastError = ruleFix.error ?? lastError;
+      }
+
+      // 以前に同じ壊れ方の図を直していれば、1回目の試行は履歴のキャッシュから返る
+      const cacheKey = fixCacheKey(provider, currentCode, lastError);
+      const cached = this.usesFixCache() && this.fixHistory.has(cacheKey);
+
+      for (let attempt = 1; !success && attempt <= maxAttempts; attempt++) {
         new Notice(`#${block.index + 1}: 修正を試行中... (${attempt}/${maxAttempts})`);
         try {
-          const proposedFix = await geminiFixWithBackoff(this.settings.geminiApiKey!, this.settings.geminiModel, currentCode, lastError, this.settings.requestTimeoutMs);
-          const codeToValidate = preserveInitIfNeeded(block.code, proposedFix, this.settings.preserveInitDirective);
-
-          const validation = await validateMermaidAsync(codeToValidate);
-          if (validation.ok) {
-            new Notice(`#${block.index + 1}: 修正案の検証に成功しました。`);
-            fixedCode = codeToValidate;
+          const { valid, rejected } = await this.proposeFixes(provider, block.code, currentCode, lastError);
+          if (valid.length > 0) {
+            new Notice(`#${block.index + 1}: 修正案の検証に成功しました。${valid.length > 1 ? `（有効な候補 ${valid.length}件）` : ""}`);
+            fixedCode = valid[0];
+            alternatives = valid;
             success = true;
+            if (!cached || attempt > 1) await this.recordFix(provider, currentFile?.path ?? "", block, cacheKey, valid[0], initialError, attempt);
             break;
-          } else {
-            lastError = validation.error ?? "修正後もエラーが残っています";
-            currentCode = codeToValidate;
+          } else if (rejected) {
+            lastError = rejected.error;
+            currentCode = rejected.code;
             if (attempt < maxAttempts) new Notice(`#${block.index + 1}: 修正案にエラーあり。再試行します。`);
           }
         } catch (e: any) {
-          console.error(`Gemini修正失敗 #${block.index + 1} (試行 ${attempt}):`, e);
-          new Notice(`Gemini修正エラー #${block.index + 1}: ${e.message}`, 6000);
+          console.error(`${provider.label}修正失敗 #${block.index + 1} (試行 ${attempt}):`, e);
+          new Notice(`${provider.label}修正エラー #${block.index + 1}: ${e.message}`, 6000);
           success = false;
-          if (/認証エラー|モデルが見つかりません|応答のJSON解析/i.test(String(e?.message ?? e))) {
+          if (/認証エラー|モデルが見つかりません|応答のJSON解析|への接続に失敗/i.test(String(e?.message ?? e))) {
             cancelled = true;
           }
           break;
@@ -359,16 +562,18 @@ export default class MermaidZoomPlugin extends Plugin {
             const modal = new FixPreviewModal({
               original: block.code,
               proposed: fixedCode!,
-              onReplace: () => {
-                replacements.push({ start: block.startOffset, end: block.endOffset, text: fixedCode! });
+              alternatives,
+              onRefine: (code, error) => this.refineFix(provider, block.code, code, error),
+              onReplace: (code) => {
+                replacements.push({ start: block.startOffset, end: block.endOffset, text: code });
                 resolve();
               },
               onSkip: () => { resolve(); },
-              onAutoApply: async () => {
+              onAutoApply: async (code) => {
                 autoApply = true;
                 this.settings.applyMode = "auto";
                 await this.saveData(this.settings);
-                replacements.push({ start: block.startOffset, end: block.endOffset, text: fixedCode! });
+                replacements.push({ start: block.startOffset, end: block.endOffset, text: code });
                 resolve();
               },
             });
@@ -388,153 +593,355 @@ export default class MermaidZoomPlugin extends Plugin {
     }
   }
 
-  private async runValidateAllFiles() {
-    if (!hasMermaid()) { new Notice("Mermaidライブラリがロードされていないため、構文を検証できません。"); return; }
-
-    const markdownFiles = this.app.vault.getMarkdownFiles();
-    if (markdownFiles.length === 0) { new Notice("Markdownファイルが見つかりません。"); return; }
+  /** 全ファイル処理用：ルールベース→LLM→再検証で1ブロックを直す。中断すべきエラーは fatal に入れて返す */
+  private async fixBlockForJob(provider: LlmProvider, file: TFile, block: MermaidBlock, initialError: string, maxAttempts: number): Promise<{ fixedCode: string | null; alternatives: string[]; lastError: string; fatal?: string }> {
+    let currentCode = block.code, lastError = initialError;
 
-    // 確認ダイアログ
-    const confirmed = await this.showConfirmDialog(
-      "全ファイル検証の確認",
-      `全${markdownFiles.length}ファイルのMermaidブロックを検査しますか？\n\nこの処理には時間がかかる場合があります。`
-    );
-    
-    if (!confirmed) return;
+    const ruleFix = await this.tryRuleFix(block.code);
+    if (ruleFix.ok) return { fixedCode: ruleFix.code, alternatives: [], lastError };
+    if (ruleFix.fired.length > 0) {
+      currentCode = ruleFix.code;
+      lastError = ruleFix.error ?? lastError;
+    }
 
-    new Notice(`全${markdownFiles.length}ファイルのMermaidブロックを検査しています...`);
+    const cacheKey = fixCacheKey(provider, currentCode, lastError);
+    const cached = this.usesFixCache() && this.fixHistory.has(cacheKey);
 
-    let totalBlocks = 0;
-    let totalErrors = 0;
-    const errorFiles: { file: TFile; errors: { block: MermaidBlock; error: string }[] }[] = [];
-
-    for (const file of markdownFiles) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        const content = await this.app.vault.read(file);
-        const allBlocks = extractMermaidBlocks(content);
-        totalBlocks += allBlocks.length;
-
-        if (allBlocks.length > 0) {
-          const fileErrors: { block: MermaidBlock; error: string }[] = [];
-          for (const block of allBlocks) {
-            const validation = await validateMermaidAsync(block.code);
-            if (!validation.ok) {
-              fileErrors.push({ block, error: validation.error ?? "不明な構文エラー" });
-            }
-          }
-          if (fileErrors.length > 0) {
-            errorFiles.push({ file, errors: fileErrors });
-            totalErrors += fileErrors.length;
-          }
+        const { valid, rejected } = await this.proposeFixes(provider, block.code, currentCode, lastError);
+        if (valid.length > 0) {
+          if (!cached || attempt > 1) await this.recordFix(provider, file.path, block, cacheKey, valid[0], initialError, attempt);
+          return { fixedCode: valid[0], alternatives: valid, lastError };
+        }
+        if (rejected) {
+          lastError = rejected.error;
+          currentCode = rejected.code;
         }
-      } catch (error) {
-        console.error(`ファイル読み込みエラー: ${file.path}`, error);
+      } catch (e: any) {
+        console.error(`${provider.label}修正失敗 ${file.basename} #${block.index + 1}:`, e);
+        const fatal = /認証エラー|モデルが見つかりません|応答のJSON解析|への接続に失敗/i.test(String(e?.message ?? e));
+        return { fixedCode: null, alternatives: [], lastError, fatal: fatal ? String(e?.message ?? e) : undefined };
       }
     }
+    return { fixedCode: null, alternatives: [], lastError };
+  }
 
-    if (totalErrors === 0) {
-      new Notice(`検査完了: 全${totalBlocks}件のMermaidブロックでエラーは見つかりませんでした。`);
-    } else {
-      const errorMessage = `検査完了: ${totalErrors}件のエラーが${errorFiles.length}ファイルで見つかりました。`;
-      console.log("Mermaid構文エラー詳細:", errorFiles);
-      new Notice(errorMessage);
+  /** 候補モード（候補数 2 以上）では毎回 LLM に問い合わせ、修正キャッシュは使わない */
+  private usesFixCache(): boolean {
+    return this.settings.fixCandidateCount <= 1;
+  }
+
+  /** LLM に修正案を出させて検証する。通った案は元のコードからの変更が小さい順に、通らなかった案は1つ目を次の試行用に返す */
+  private async proposeFixes(provider: LlmProvider, original: string, code: string, error: string): Promise<{ valid: string[]; rejected: { code: string; error: string } | null }> {
+    const timeoutMs = this.settings.requestTimeoutMs;
+    const proposals = this.usesFixCache()
+      ? [await llmFixSingle(provider, code, error, timeoutMs, this.fixHistory, this.llmScheduler)]
+      : await llmFixCandidates(provider, code, error, timeoutMs, this.settings.fixCandidateCount, this.llmScheduler);
+
+    const valid: { code: string; distance: number }[] = [];
+    let rejected: { code: string; error: string } | null = null;
+    for (const proposal of proposals) {
+      const candidate = preserveInitIfNeeded(original, proposal, this.settings.preserveInitDirective);
+      if (valid.some(v => v.code === candidate)) continue;
+      const validation = await validateMermaidAsync(candidate);
+      if (validation.ok) valid.push({ code: candidate, distance: editDistance(original, candidate) });
+      else rejected ??= { code: candidate, error: validation.error ?? "修正後もエラーが残っています" };
     }
+    valid.sort((a, b) => a.distance - b.distance);
+    return { valid: valid.map(v => v.code), rejected };
+  }
+
+  /** 検証に通った LLM 修正を履歴（兼キャッシュ）に残す */
+  private async recordFix(provider: LlmProvider, path: string, block: MermaidBlock, key: string, fixed: string, error: string, attempts: number): Promise<void> {
+    await this.fixHistory.add({
+      key,
+      path,
+      blockIndex: block.index,
+      provider: provider.label,
+      model: provider.model,
+      diagramType: mermaidDiagramType(block.code),
+      error,
+      original: block.code,
+      fixed,
+      attempts,
+    });
   }
 
-  private async runFixAllFilesWithGemini() {
-    if (!this.settings.geminiApiKey) { new Notice("Gemini APIキーが未設定です。設定画面から登録してください。", 6000); return; }
+  /** 履歴の修正を、修正前と同じコードのブロックにもう一度当てる */
+  private async reapplyHistoryFix(entry: FixHistoryEntry): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) { new Notice(`ファイルが見つかりません: ${entry.path}`); return; }
+    let applied = false;
+    await this.app.vault.process(file, (data) => {
+      const blocks = extractMermaidBlocks(data).filter(b => b.code === entry.original);
+      // 同じコードのブロックが複数あれば、記録したときの位置のものを優先する
+      const block = blocks.find(b => b.index === entry.blockIndex) ?? blocks[0];
+      if (!block) return data;
+      applied = true;
+      return data.slice(0, block.startOffset) + entry.fixed + data.slice(block.endOffset);
+    });
+    new Notice(applied
+      ? `${file.basename} #${entry.blockIndex + 1}: 履歴の修正を再適用しました。`
+      : `${file.basename}: 修正前と同じコードのブロックが見つかりません（既に修正済みか、編集されています）。`, 6000);
+  }
+
+  /** 修正プレビューで編集したコードと、その検証エラーを LLM に渡して直し直す */
+  private async refineFix(provider: LlmProvider, original: string, edited: string, error: string): Promise<string> {
+    const hint = `${error}\n\n補足: このコードはユーザーが手で編集したものです。編集の意図を保ったまま、エラーだけを直してください。`;
+    const fixed = await llmFixSingle(provider, edited, hint, this.settings.requestTimeoutMs, undefined, this.llmScheduler);
+    return preserveInitIfNeeded(original, fixed, this.settings.preserveInitDirective);
+  }
+
+  /** ルールベース修正を適用して検証する。ルールが1つも発火しなければ ok=false のまま返す */
+  private async tryRuleFix(code: string): Promise<{ ok: boolean; code: string; error?: string; fired: AutoFixResult["fired"] }> {
+    const result = runAutoFix(code);
+    if (result.fired.length === 0) return { ok: false, code, fired: [] };
+    const validation = await validateMermaidAsync(result.code);
+    return { ok: validation.ok, code: result.code, error: validation.error, fired: result.fired };
+  }
+
+  /** APIキー不要。ルールベースの修正だけでアクティブノートのエラーを直す */
+  private async runFixWithRules() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view) { new Notice("アクティブなMarkdownノートが見つかりません。"); return; }
     if (!hasMermaid()) { new Notice("Mermaidライブラリがロードされていないため、構文を検証できません。"); return; }
 
-    const markdownFiles = this.app.vault.getMarkdownFiles();
-    if (markdownFiles.length === 0) { new Notice("Markdownファイルが見つかりません。"); return; }
+    const editor = view.editor;
+    const allBlocks = extractMermaidBlocks(editor.getValue());
+    if (allBlocks.length === 0) { new Notice("Mermaidコードブロックは見つかりませんでした。"); return; }
+
+    const replacements: { start: number; end: number; text: string }[] = [];
+    const firedTitles = new Set<string>();
+    const llm = createLlmProvider(this.settings).provider;
+    let autoApply = this.settings.applyMode === "auto";
+    let errorCount = 0, unresolved = 0;
 
-    // 確認ダイアログ
-    const confirmed = await this.showConfirmDialog(
-      "全ファイル修正の確認",
-      `全${markdownFiles.length}ファイルのMermaidブロックを検査・修正しますか？\n\n⚠️ この処理により複数のファイルが変更される可能性があります。\nこの処理には時間がかかる場合があります。`
+    for (const block of allBlocks) {
+      const validation = await validateMermaidAsync(block.code);
+      if (validation.ok) continue;
+      errorCount++;
+
+      const ruleFix = await this.tryRuleFix(block.code);
+      if (!ruleFix.ok) { unresolved++; continue; }
+      // プレビューで一部の変更だけを採用した場合はそのコードで置換する
+      let accepted: string | null = autoApply ? ruleFix.code : null;
+      if (!autoApply) {
+        accepted = await new Promise<string | null>((resolve) => {
+          new FixPreviewModal({
+            original: block.code,
+            proposed: ruleFix.code,
+            // LLM が設定されていれば、編集後の再依頼にだけ使う
+            onRefine: llm ? (code, error) => this.refineFix(llm, block.code, code, error) : undefined,
+            onReplace: (code) => resolve(code),
+            onSkip: () => resolve(null),
+            onAutoApply: async (code) => {
+              autoApply = true;
+              this.settings.applyMode = "auto";
+              await this.saveData(this.settings);
+              resolve(code);
+            },
+          }).open();
+        });
+      }
+      if (accepted === null) continue;
+      replacements.push({ start: block.startOffset, end: block.endOffset, text: accepted });
+      ruleFix.fired.forEach(f => firedTitles.add(f.title));
+    }
+
+    if (errorCount === 0) { new Notice("検査完了: エラーのあるMermaidブロックは見つかりませんでした。"); return; }
+
+    if (replacements.length > 0) {
+      applyReplacementsReverse(editor, replacements);
+      new Notice(`ルールベース修正を${replacements.length}件適用しました（${[...firedTitles].join("、")}）。`, 6000);
+    } else {
+      new Notice("適用された修正はありませんでした。");
+    }
+    if (unresolved > 0) new Notice(`${unresolved}件のブロックはルールでは修正できませんでした。LLMでの修正を試してください。`, 6000);
+  }
+
+  private async runValidateAllFiles() {
+    if (!hasMermaid()) { new Notice("Mermaidライブラリがロードされていないため、構文を検証できません。"); return; }
+    if (this.jobRunner.busy) { new Notice("別の全ファイル処理が実行中です。"); return; }
+
+    const markdownFiles = await this.askJobFiles(
+      "全ファイル検証の確認",
+      "Mermaidブロックを検査します。この処理には時間がかかる場合があります。"
     );
-    
-    if (!confirmed) return;
+    if (!markdownFiles) return;
 
-    new Notice(`全${markdownFiles.length}ファイルのMermaidブロックを検査・修正しています...`);
+    let totalBlocks = 0;
+    const issues: ValidationIssue[] = [];
+
+    const summary = await this.jobRunner.run("Mermaid 検証", markdownFiles, async (file) => {
+      const content = await this.app.vault.read(file);
+      totalBlocks += extractMermaidBlocks(content).length;
+      const fileIssues = await this.collectTextIssues(file.path, content);
+      issues.push(...fileIssues);
+      return fileIssues.length;
+    });
 
-    let totalFixed = 0;
-    let totalErrors = 0;
-    let cancelled = false;
+    await this.showIssues({ kind: "vault" }, issues);
 
-    for (const file of markdownFiles) {
-      if (cancelled) break;
+    summary.details.push(`検査ブロック: ${totalBlocks}件`);
+    if (issues.length > 0) summary.details.push("詳細はエラーパネルを確認してください。");
+    new JobSummaryModal(this.app, summary).open();
+  }
 
-      try {
-        const content = await this.app.vault.read(file);
-        const allBlocks = extractMermaidBlocks(content);
-        
-        if (allBlocks.length === 0) continue;
-
-        const errorBlocks: { block: MermaidBlock; error: string }[] = [];
-        for (const block of allBlocks) {
-          const validation = await validateMermaidAsync(block.code);
-          if (!validation.ok) {
-            errorBlocks.push({ block, error: validation.error ?? "不明な構文エラー" });
-          }
+  /** ジョブの対象範囲を選ばせ、絞り込んだファイル一覧を返す（キャンセル時は null） */
+  private async askJobFiles(title: string, message: string): Promise<TFile[] | null> {
+    const all = this.app.vault.getMarkdownFiles();
+    if (all.length === 0) { new Notice("Markdownファイルが見つかりません。"); return null; }
+    const scope = await new Promise<JobScope | null>((resolve) => {
+      new JobStartModal(this.app, { title, message, countFiles: (sc) => filterFilesByScope(this.app, all, sc).length }, resolve).open();
+    });
+    if (!scope) return null;
+    const files = filterFilesByScope(this.app, all, scope);
+    if (files.length === 0) { new Notice("条件に一致するMarkdownファイルがありません。"); return null; }
+    return files;
+  }
+
+  /** テキスト内の全ブロックを検証し、パネル表示用の問題一覧を返す */
+  private async collectTextIssues(path: string, text: string): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    for (const block of extractMermaidBlocks(text)) {
+      const validation = await validateMermaidAsync(block.code);
+      if (validation.ok) continue;
+      const { startLine, endLine } = blockLineRange(text, block);
+      issues.push({ path, blockIndex: block.index, startLine, endLine, message: validation.error ?? "不明な構文エラー" });
+    }
+    return issues;
+  }
+
+  private async collectFileIssues(file: TFile): Promise<ValidationIssue[]> {
+    if (!hasMermaid()) return [];
+    return this.collectTextIssues(file.path, await this.app.vault.cachedRead(file));
+  }
+
+  private async activateErrorView(): Promise<MermaidErrorView | null> {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_MERMAID_ERRORS)[0];
+    const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+    if (!leaf) return null;
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_MERMAID_ERRORS, active: false });
+    this.app.workspace.revealLeaf(leaf);
+    return leaf.view instanceof MermaidErrorView ? leaf.view : null;
+  }
+
+  async activateFixHistoryView(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_MERMAID_FIX_HISTORY)[0];
+    const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_MERMAID_FIX_HISTORY, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  private async showIssues(scope: ValidationScope, issues: ValidationIssue[]) {
+    const view = await this.activateErrorView();
+    view?.setIssues(scope, issues);
+  }
+
+  /** dryRun: 検証→LLM→再検証までを行い、ファイルは変更せずにレポートノートを作成する */
+  private async runFixAllFilesWithGemini(opts: { dryRun?: boolean } = {}) {
+    const dryRun = opts.dryRun ?? false;
+    const { provider, error: providerError } = createLlmProvider(this.settings);
+    if (!provider) { new Notice(providerError ?? "LLMプロバイダの設定が不正です。", 6000); return; }
+    if (!hasMermaid()) { new Notice("Mermaidライブラリがロードされていないため、構文を検証できません。"); return; }
+
+    if (this.jobRunner.busy) { new Notice("別の全ファイル処理が実行中です。"); return; }
+
+    // 確認ダイアログ（対象範囲の選択）
+    const markdownFiles = dryRun
+      ? await this.askJobFiles(
+        "ドライランの確認",
+        "Mermaidブロックを検査し、修正案のレポートを作成します。ファイルは変更されません。この処理には時間がかかる場合があります。"
+      )
+      : await this.askJobFiles(
+        "全ファイル修正の確認",
+        "Mermaidブロックを検査・修正します。⚠️ この処理により複数のファイルが変更される可能性があります。この処理には時間がかかる場合があります。"
+      );
+    if (!markdownFiles) return;
+
+    let totalFixed = 0;
+    let fatalError: string | null = null;
+    const snapshots: BatchFileSnapshot[] = [];
+    const driftedBlocks: string[] = [];
+    const failedBlocks: string[] = [];
+    const reportItems: FixReportItem[] = [];
+    const reportFailed: { path: string; blockIndex: number; error: string }[] = [];
+
+    const usageBefore = this.llmScheduler.snapshot;
+    let reviewing: Promise<void> = Promise.resolve();
+    const summary = await this.jobRunner.run(dryRun ? "Mermaid ドライラン" : "Mermaid 一括修正", markdownFiles, async (file, job) => {
+      const content = await this.app.vault.read(file);
+      if (isFixReport(content)) return 0; // レポート自体は対象外
+      const allBlocks = extractMermaidBlocks(content);
+      
+      if (allBlocks.length === 0) return 0;
+
+      const errorBlocks: { block: MermaidBlock; error: string }[] = [];
+      for (const block of allBlocks) {
+        const validation = await validateMermaidAsync(block.code);
+        if (!validation.ok) {
+          errorBlocks.push({ block, error: validation.error ?? "不明な構文エラー" });
         }
+      }
 
-        if (errorBlocks.length === 0) continue;
+      if (errorBlocks.length === 0) return 0;
 
-        totalErrors += errorBlocks.length;
-        new Notice(`${file.basename}: ${errorBlocks.length}件のエラーを修正中...`);
+      const maxAttempts = 3; // 全ファイル処理のため試行回数を減らす
 
-        const replacements: { start: number; end: number; text: string }[] = [];
+      // LLM への問い合わせはブロックごとに並行して行う（実際の同時実行数と間隔はスケジューラが制限する）
+      const results = await Promise.all(errorBlocks.map(async ({ block, error }) => {
+        if (!(await job.checkpoint())) return null;
+        const result = await this.fixBlockForJob(provider, file, block, error, maxAttempts);
+        if (result.fatal) {
+          fatalError = result.fatal;
+          job.cancel();
+        }
+        return result;
+      }));
+
+      // 他のファイルと並行して処理しているので、確認ダイアログが重ならないよう結果の確認と適用は1ファイルずつ行う
+      const review = async () => {
+        const replacements: OffsetRangeReplacement[] = [];
         let autoApply = this.settings.applyMode === "auto";
 
-        for (const { block, error: initialError } of errorBlocks) {
-          if (cancelled) break;
-
-          let currentCode = block.code, lastError = initialError, fixedCode: string | null = null, success = false;
-          const maxAttempts = 3; // 全ファイル処理のため試行回数を減らす
-
-          for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-            try {
-              const proposedFix = await geminiFixWithBackoff(this.settings.geminiApiKey!, this.settings.geminiModel, currentCode, lastError, this.settings.requestTimeoutMs);
-              const codeToValidate = preserveInitIfNeeded(block.code, proposedFix, this.settings.preserveInitDirective);
-
-              const validation = await validateMermaidAsync(codeToValidate);
-              if (validation.ok) {
-                fixedCode = codeToValidate;
-                success = true;
-                break;
-              } else {
-                lastError = validation.error ?? "修正後もエラーが残っています";
-                currentCode = codeToValidate;
-              }
-            } catch (e: any) {
-              console.error(`Gemini修正失敗 ${file.basename} #${block.index + 1}:`, e);
-              if (/認証エラー|モデルが見つかりません|応答のJSON解析/i.test(String(e?.message ?? e))) {
-                cancelled = true;
-              }
-              break;
+        for (const [i, { block, error: initialError }] of errorBlocks.entries()) {
+          const result = results[i];
+          if (!result || job.cancelled) break;
+          const { fixedCode, alternatives, lastError } = result;
+
+          if (dryRun) {
+            if (fixedCode) {
+              reportItems.push({ id: `mfr-${reportItems.length + 1}`, path: file.path, blockIndex: block.index, error: initialError, original: block.code, proposed: fixedCode });
+            } else {
+              reportFailed.push({ path: file.path, blockIndex: block.index, error: lastError });
             }
+            continue;
           }
 
-          if (success && fixedCode) {
+          if (fixedCode) {
+            const rep: OffsetRangeReplacement = { start: block.startOffset, end: block.endOffset, text: fixedCode, expected: block.code, label: `#${block.index + 1}` };
             if (autoApply) {
-              replacements.push({ start: block.startOffset, end: block.endOffset, text: fixedCode });
+              replacements.push(rep);
             } else {
               // 通常の修正と同じ方法でユーザーに確認
               await new Promise<void>((resolve) => {
                 const modal = new FixPreviewModal({
                   original: block.code,
-                  proposed: fixedCode!,
-                  onReplace: () => {
-                    replacements.push({ start: block.startOffset, end: block.endOffset, text: fixedCode! });
+                  proposed: fixedCode,
+                  alternatives,
+                  onRefine: (code, error) => this.refineFix(provider, block.code, code, error),
+                  onReplace: (code) => {
+                    replacements.push({ ...rep, text: code });
                     resolve();
                   },
                   onSkip: () => { resolve(); },
-                  onAutoApply: async () => {
+                  onAutoApply: async (code) => {
                     autoApply = true;
                     this.settings.applyMode = "auto";
                     await this.saveData(this.settings);
-                    replacements.push({ start: block.startOffset, end: block.endOffset, text: fixedCode! });
+                    replacements.push({ ...rep, text: code });
                     resolve();
                   },
                 });
@@ -542,39 +949,153 @@ export default class MermaidZoomPlugin extends Plugin {
               });
             }
           } else {
-            new Notice(`${file.basename} #${block.index + 1}: 自動修正に失敗しました（最大試行 ${maxAttempts} 回）。`, 6000);
+            failedBlocks.push(`${file.basename} #${block.index + 1}`);
           }
         }
 
         if (replacements.length > 0) {
-          // ファイルを更新
-          const newContent = this.applyReplacementsToContent(content, replacements);
-          await this.app.vault.modify(file, newContent);
-          totalFixed += replacements.length;
+          // 読み込み後に編集されていないブロックだけを置換し、変更前後を記録
+          let before = "";
+          let after = "";
+          let drifted: OffsetRangeReplacement[] = [];
+          await this.app.vault.process(file, (data) => {
+            const r = applyReplacementsChecked(data, replacements);
+            before = data;
+            after = r.content;
+            drifted = r.drifted;
+            totalFixed += r.applied.length;
+            return r.content;
+          });
+          if (after !== before) snapshots.push({ path: file.path, before, after });
+          drifted.forEach((r) => driftedBlocks.push(`${file.path} ${r.label ?? ""}`.trim()));
         }
+      };
+      const turn = reviewing.then(review);
+      reviewing = turn.catch(() => undefined);
+      await turn;
+
+      return errorBlocks.length;
+    }, this.settings.llmConcurrency);
+    if (fatalError) summary.details.push(`致命的なエラーのため中断: ${fatalError}`);
+    summary.details.push(`LLM の使用量: ${formatLlmUsage(diffLlmUsage(this.llmScheduler.snapshot, usageBefore))}`);
+
+    if (dryRun) {
+      if (reportItems.length > 0 || reportFailed.length > 0) {
+        const report = await this.writeFixReport(reportItems, reportFailed);
+        summary.details.push(`修正案 ${reportItems.length}件 / 修正できなかったブロック ${reportFailed.length}件`, `レポート: ${report.path}`);
+      }
+      new JobSummaryModal(this.app, summary).open();
+      return;
+    }
 
-      } catch (error) {
-        console.error(`ファイル処理エラー: ${file.path}`, error);
+    // 中断時も適用済みの分は取り消せるように記録する
+    if (snapshots.length > 0) {
+      try {
+        await this.snapshotStore().save(snapshots);
+      } catch (e) {
+        console.error("一括修正スナップショットの保存に失敗しました:", e);
+        summary.details.push("取り消し用スナップショットの保存に失敗しました。");
       }
     }
 
-    if (cancelled) {
-      new Notice("全ファイル処理を中断しました。");
-    } else {
-      new Notice(`全ファイル処理完了: ${totalFixed}件の修正を適用しました。`);
+    summary.details.push(`適用した修正: ${totalFixed}件`);
+    if (failedBlocks.length > 0) {
+      summary.details.push(`自動修正に失敗したブロック（${failedBlocks.length}件）: ${failedBlocks.join(", ")}`);
     }
+    if (driftedBlocks.length > 0) {
+      summary.details.push(`処理中に編集されたため適用をスキップしたブロック（${driftedBlocks.length}件）: ${driftedBlocks.join(", ")}`);
+    }
+    if (snapshots.length > 0) summary.details.push("「Mermaid: 直前の全ファイル一括修正を取り消す」で元に戻せます。");
+    new JobSummaryModal(this.app, summary).open();
+  }
+
+  private async writeFixReport(items: FixReportItem[], failed: { path: string; blockIndex: number; error: string }[]): Promise<TFile> {
+    const folder = normalizePath(this.settings.fixReportFolder || DEFAULT_SETTINGS.fixReportFolder);
+    if (!this.app.vault.getAbstractFileByPath(folder)) await this.app.vault.createFolder(folder);
+    const now = new Date();
+    const base = `${folder}/Mermaid修正レポート ${moment(now).format("YYYYMMDD-HHmmss")}`;
+    let path = `${base}.md`;
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) path = `${base} ${n}.md`;
+    const file = await this.app.vault.create(path, buildFixReport(items, failed, now));
+    await this.app.workspace.getLeaf(true).openFile(file);
+    return file;
   }
 
-  private applyReplacementsToContent(content: string, replacements: { start: number; end: number; text: string }[]): string {
-    // 置換を逆順で適用（インデックスがずれないように）
-    const sortedReplacements = [...replacements].sort((a, b) => b.start - a.start);
-    let result = content;
-    
-    for (const replacement of sortedReplacements) {
-      result = result.slice(0, replacement.start) + replacement.text + result.slice(replacement.end);
+  /** 開いているレポートノートのチェック済み項目だけを適用する */
+  private async runApplyFixReport() {
+    const reportFile = this.app.workspace.getActiveFile();
+    if (!reportFile || reportFile.extension !== "md") { new Notice("レポートノートを開いてから実行してください。"); return; }
+    const parsed = parseFixReport(await this.app.vault.read(reportFile));
+    if (!parsed) { new Notice("アクティブなノートはMermaid修正レポートではありません。"); return; }
+
+    const targets = parsed.items.filter(i => parsed.checked.has(i.id));
+    if (targets.length === 0) { new Notice("チェックされた未適用の項目がありません。"); return; }
+
+    const byPath = new Map<string, FixReportItem[]>();
+    targets.forEach(i => byPath.set(i.path, [...(byPath.get(i.path) ?? []), i]));
+
+    const results = new Map<string, string>();
+    const snapshots: BatchFileSnapshot[] = [];
+    for (const [path, items] of byPath) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) {
+        items.forEach(i => results.set(i.id, "ファイルが見つかりません"));
+        continue;
+      }
+      let before = "";
+      let after = "";
+      await this.app.vault.process(file, (data) => {
+        // レポート作成後に位置が変わっていても、元コードが残っていれば適用する
+        const blocks = extractMermaidBlocks(data);
+        const reps: OffsetRangeReplacement[] = [];
+        for (const item of items) {
+          const block = blocks.find(b => b.index === item.blockIndex && b.code === item.original)
+            ?? blocks.find(b => b.code === item.original);
+          if (!block) { results.set(item.id, "元のコードが変更されているためスキップ"); continue; }
+          reps.push({ start: block.startOffset, end: block.endOffset, text: item.proposed, expected: item.original, label: item.id });
+        }
+        const r = applyReplacementsChecked(data, reps);
+        r.applied.forEach(rep => results.set(rep.label!, REPORT_APPLIED_NOTE));
+        r.drifted.forEach(rep => results.set(rep.label!, "元のコードが変更されているためスキップ"));
+        before = data;
+        after = r.content;
+        return r.content;
+      });
+      if (after !== before) snapshots.push({ path, before, after });
     }
-    
-    return result;
+
+    if (snapshots.length > 0) await this.snapshotStore().save(snapshots);
+    await this.app.vault.process(reportFile, (data) => markReportItems(data, results));
+
+    const applied = [...results.values()].filter(v => v === REPORT_APPLIED_NOTE).length;
+    const skipped = results.size - applied;
+    new Notice(`レポートから${applied}件の修正を適用しました。${skipped > 0 ? `スキップ ${skipped}件（詳細はレポートを参照）。` : ""}`, 6000);
+  }
+
+  private pluginDir(): string {
+    return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+  }
+
+  private snapshotStore(): BatchSnapshotStore {
+    return new BatchSnapshotStore(this.app, this.pluginDir());
+  }
+
+  private async runRevertLastBatch() {
+    const store = this.snapshotStore();
+    const snapshot = await store.load();
+    if (!snapshot || snapshot.files.length === 0) { new Notice("取り消せる一括修正はありません。"); return; }
+
+    const confirmed = await this.showConfirmDialog(
+      "一括修正の取り消し",
+      `${new Date(snapshot.createdAt).toLocaleString()} の一括修正で変更された${snapshot.files.length}ファイルを元に戻しますか？\n\n修正後に編集されたファイルは上書きしません。`
+    );
+    if (!confirmed) return;
+
+    const result = await store.revert(snapshot);
+    const parts = [`${result.restored.length}ファイルを元に戻しました。`];
+    if (result.conflicted.length > 0) parts.push(`修正後に編集されていた${result.conflicted.length}ファイルはスキップしました:\n${result.conflicted.join("\n")}`);
+    if (result.missing.length > 0) parts.push(`見つからない${result.missing.length}ファイルはスキップしました。`);
+    new Notice(parts.join("\n"), result.conflicted.length > 0 ? 10000 : 5000);
   }
 
   private async showConfirmDialog(title: string, message: string): Promise<boolean> {
@@ -610,129 +1131,148 @@ export default class MermaidZoomPlugin extends Plugin {
 
 
 
-  private cloneSvgWithInlineStyles(orig: SVGSVGElement): SVGSVGElement {
-    const clone = orig.cloneNode(true) as SVGSVGElement;
-    const traverse = (src: Element, dst: Element) => {
-      const comp = getComputedStyle(src);
-      const props = ["stroke", "stroke-width", "opacity", "color", "font", "font-family", "font-size"] as const;
-      const origFillAttr = src.getAttribute("fill");
-      const compFill = comp.getPropertyValue("fill");
-      if (origFillAttr?.trim() === "none") {
-        (dst as HTMLElement).setAttribute("fill", "none");
-      } else if (compFill && compFill !== "rgba(0, 0, 0, 0)") {
-        (dst as HTMLElement).style.setProperty("fill", compFill);
-      }
-      props.forEach(p => {
-        const v = comp.getPropertyValue(p);
-        if (v && v !== "none" && v !== "rgba(0, 0, 0, 0)") (dst as HTMLElement).style.setProperty(p, v);
-      });
-      Array.from(src.children).forEach((c, i) => traverse(c, (dst.children[i] as Element)));
-    };
-    traverse(orig, clone);
-    return clone;
-  }
-
-  private replaceHtmlLabels(svg: SVGSVGElement) {
-    svg.querySelectorAll("foreignObject").forEach(fo => {
-      const span = fo.querySelector("span, div");
-      const label = span?.textContent?.trim();
-      if (!label) return;
-      const x = parseFloat(fo.getAttribute("x") ?? "0"), y = parseFloat(fo.getAttribute("y") ?? "0");
-      const w = parseFloat(fo.getAttribute("width") ?? "0"), h = parseFloat(fo.getAttribute("height") ?? "0");
-      const textEl = document.createElementNS("http://www.w3.org/2000/svg", "text");
-      textEl.setAttribute("x", (x + w / 2).toString());
-      textEl.setAttribute("y", (y + h / 2).toString());
-      textEl.setAttribute("text-anchor", "middle");
-      textEl.setAttribute("dominant-baseline", "central");
-      textEl.setAttribute("alignment-baseline", "central");
-      const comp = getComputedStyle(span as Element);
-      ["font-family", "font-size", "font-weight", "fill", "color"].forEach(p => {
-        textEl.style.setProperty(p, comp.getPropertyValue(p));
-      });
-      textEl.textContent = label;
-      fo.parentNode?.replaceChild(textEl, fo);
-    });
-  }
-
-  private async copyAsSvg(originalContainerEl: HTMLElement) {
+  private async copyAsSvg(originalContainerEl: HTMLElement, background?: string) {
     const srcSvg = originalContainerEl.querySelector("svg");
     if (!srcSvg) { new Notice("SVG要素が見つかりませんでした。"); return; }
-    const svgClone = this.cloneSvgWithInlineStyles(srcSvg as SVGSVGElement);
-    this.replaceHtmlLabels(svgClone);
-    svgClone.removeAttribute("class");
-    if (!svgClone.hasAttribute("viewBox")) {
-      const { width, height } = (srcSvg as SVGSVGElement).getBBox();
-      svgClone.setAttribute("viewBox", `0 0 ${width} ${height}`);
-    }
-    if (!svgClone.hasAttribute("width") || !svgClone.hasAttribute("height")) {
-      const rect = (srcSvg as SVGSVGElement).getBoundingClientRect();
-      svgClone.setAttribute("width", rect.width.toString());
-      svgClone.setAttribute("height", rect.height.toString());
-    }
-    await navigator.clipboard.writeText(new XMLSerializer().serializeToString(svgClone));
+    const svg = await serializeSvgForExport(srcSvg as SVGSVGElement, { background, embedFonts: this.settings.exportEmbedFonts });
+    await navigator.clipboard.writeText(svg);
     new Notice("SVGデータをクリップボードにコピーしました。");
   }
 
-  private async copyAsPng(originalContainerEl: HTMLElement) {
+  private async copyAsPng(originalContainerEl: HTMLElement, background = this.exportBackground()) {
     const srcSvg = originalContainerEl.querySelector("svg");
     if (!srcSvg) { new Notice("SVG要素が見つかりませんでした。"); return; }
 
     new Notice("PNGに変換中…");
     try {
-      const svgClone = this.cloneSvgWithInlineStyles(srcSvg as SVGSVGElement);
-      this.replaceHtmlLabels(svgClone);
-      const { width, height } = (srcSvg as SVGSVGElement).getBoundingClientRect();
-      const scale = this.settings.pngScale ?? 2;
-      svgClone.setAttribute("width", `${width * scale}`);
-      svgClone.setAttribute("height", `${height * scale}`);
-      const svgData = new XMLSerializer().serializeToString(svgClone);
-
-      const canvas = document.createElement("canvas");
-      canvas.width = Math.max(1, Math.round(width * scale));
-      canvas.height = Math.max(1, Math.round(height * scale));
-      const ctx = canvas.getContext("2d");
-      if (!ctx) throw new Error("Canvasコンテキストの取得に失敗しました。");
-
-      const dataUrl = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgData)))}`;
-      const img = new Image();
-      img.onload = async () => {
-        try {
-          ctx.fillStyle = getComputedStyle(document.body).getPropertyValue("background-color") || "#ffffff";
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-          await new Promise<void>((resolve, reject) => {
-            canvas.toBlob(async (blob) => {
-              if (!blob) { reject(new Error("PNG Blobの生成に失敗しました。")); return; }
-              try {
-                if (typeof (window as any).ClipboardItem === "function") {
-                  await navigator.clipboard.write([new (window as any).ClipboardItem({ "image/png": blob })]);
-                  new Notice("PNG画像をクリップボードにコピーしました。");
-                } else {
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement("a");
-                  a.href = url;
-                  a.download = "diagram.png";
-                  document.body.appendChild(a);
-                  a.click();
-                  a.remove();
-                  URL.revokeObjectURL(url);
-                  new Notice("PNGをファイルとして保存しました（ClipboardItem非対応のため）。");
-                }
-                resolve();
-              } catch (err) { reject(err); }
-            }, "image/png");
-          });
-        } catch (err: any) {
-          throw err;
-        }
-      };
-      img.onerror = () => { throw new Error("PNGへの変換に失敗しました（画像読み込みエラー）。"); };
-      img.src = dataUrl;
+      const { canvas } = await rasterizeSvg(srcSvg as SVGSVGElement, this.settings.pngScale ?? 2, background, this.settings.exportEmbedFonts);
+      const blob = await canvasToBlob(canvas, "image/png");
+      if (typeof (window as any).ClipboardItem === "function") {
+        await navigator.clipboard.write([new (window as any).ClipboardItem({ "image/png": blob })]);
+        new Notice("PNG画像をクリップボードにコピーしました。");
+      } else {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = "diagram.png";
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+        URL.revokeObjectURL(url);
+        new Notice("PNGをファイルとして保存しました（ClipboardItem非対応のため）。");
+      }
     } catch (error: any) {
       console.error("PNG copy failed:", error);
       new Notice(`PNGのコピーに失敗しました: ${error.message ?? String(error)}`);
     }
   }
+
+  private exportBackground(): string {
+    return getComputedStyle(document.body).getPropertyValue("background-color") || "#ffffff";
+  }
+
+  /** ズーム表示中の図に対応するブロックを、ソースコード一致 → DOM順の順で推定 */
+  private async locateBlock(element: HTMLElement, sourceCodeEl: HTMLElement | null): Promise<{ file: TFile | null; block: MermaidBlock | null }> {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") return { file: null, block: null };
+    const blocks = extractMermaidBlocks(await this.app.vault.cachedRead(file));
+
+    const source = sourceCodeEl?.textContent?.trim();
+    if (source) {
+      const hit = blocks.find(b => b.code.trim() === source);
+      if (hit) return { file, block: hit };
+    }
+    const container = element.closest(".markdown-preview-view, .markdown-source-view");
+    const rendered = container ? Array.from(container.querySelectorAll(".mermaid")) : [];
+    const idx = rendered.indexOf(element);
+    return { file, block: idx >= 0 && idx < blocks.length ? blocks[idx] : null };
+  }
+
+  private showExportMenu(anchor: HTMLElement, onPick: (format: ExportFormat) => void) {
+    const menu = new Menu();
+    (["svg", "png", "pdf"] as ExportFormat[]).forEach((format) => {
+      menu.addItem((item) => item.setTitle(`${format.toUpperCase()} としてVaultに保存`).onClick(() => onPick(format)));
+    });
+    const rect = anchor.getBoundingClientRect();
+    menu.showAtPosition({ x: rect.left, y: rect.bottom });
+  }
+
+  private async runBulkExport(files: TFile[], label: string) {
+    if (!hasMermaid()) { new Notice("Mermaid がロードされていません。"); return; }
+    if (files.length === 0) { new Notice("Markdownファイルが見つかりません。"); return; }
+
+    const format = this.settings.exportFormat;
+    new Notice(`${label}: ${files.length}ファイルの図を${format.toUpperCase()}で書き出しています...`);
+    try {
+      const result = await new BulkExporter(this.app, this.settings).run(files, format, this.exportBackground());
+      const failedText = result.failed.length > 0 ? ` / 失敗 ${result.failed.length}件（詳細は開発者コンソール）` : "";
+      new Notice(`一括エクスポート完了: 書き出し ${result.exported}件 / 変更なし ${result.skipped}件${failedText}`, 8000);
+    } catch (e: any) {
+      console.error("Mermaid bulk export failed:", e);
+      new Notice(`一括エクスポートに失敗しました: ${e?.message ?? String(e)}`, 6000);
+    }
+  }
+
+  /** カーソル位置のブロックを画面外で描画して書き出す */
+  private async runExportBlockAtCursor() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view || !view.file) { new Notice("アクティブなMarkdownノートが見つかりません。"); return; }
+    if (!hasMermaid()) { new Notice("Mermaid がロードされていません。"); return; }
+
+    const block = this.blockAtCursor(view);
+    if (!block) { new Notice("カーソル位置にMermaidコードブロックがありません。"); return; }
+
+    let rendered: { svg: SVGSVGElement; dispose: () => void } | null = null;
+    try {
+      rendered = await renderMermaidOffscreen(block.code);
+      await this.exportSvgToVault(rendered.svg, this.settings.exportFormat, view.file, block);
+    } catch (e: any) {
+      console.error("Mermaid export failed:", e);
+      new Notice(`エクスポートに失敗しました: ${e?.message ?? String(e)}`, 6000);
+    } finally {
+      rendered?.dispose();
+    }
+  }
+
+  /** background を指定すると SVG にも背景色を付ける（拡大表示からの保存用） */
+  private async exportSvgToVault(srcSvg: SVGSVGElement, format: ExportFormat, sourceFile: TFile | null, block: MermaidBlock | null, background?: string) {
+    try {
+      const baseName = formatExportFileName(this.settings.exportFileNameTemplate, {
+        note: sourceFile?.basename ?? "diagram",
+        index: (block?.index ?? 0) + 1,
+      });
+      const data = await renderExportData(srcSvg, format, this.settings.pngScale ?? 2, background ?? this.exportBackground(), {
+        svgBackground: background !== undefined,
+        embedFonts: this.settings.exportEmbedFonts,
+      });
+      const path = await this.app.fileManager.getAvailablePathForAttachment(`${baseName}.${format}`, sourceFile?.path);
+      const created = await this.app.vault.createBinary(path, data);
+
+      if (this.settings.exportInsertEmbed && sourceFile && block) {
+        const inserted = await this.insertEmbedAfterBlock(sourceFile, block, created);
+        if (!inserted) new Notice("元ブロックが変更されていたため、埋め込みリンクは挿入しませんでした。");
+      }
+      new Notice(`${format.toUpperCase()} を保存しました: ${created.path}`);
+    } catch (e: any) {
+      console.error("Mermaid export failed:", e);
+      new Notice(`エクスポートに失敗しました: ${e?.message ?? String(e)}`, 6000);
+    }
+  }
+
+  /** 閉じフェンスの次の行に埋め込みリンクを挿入。ブロックがずれていれば何もしない */
+  private async insertEmbedAfterBlock(file: TFile, block: MermaidBlock, target: TFile): Promise<boolean> {
+    const embed = `!${this.app.fileManager.generateMarkdownLink(target, file.path)}`;
+    let inserted = false;
+    await this.app.vault.process(file, (data) => {
+      const current = extractMermaidBlocks(data).find(b => b.index === block.index);
+      if (!current || current.code !== block.code) return data;
+      const fenceLineEnd = data.indexOf("\n", current.endOffset + 1);
+      const at = fenceLineEnd < 0 ? data.length : fenceLineEnd;
+      inserted = true;
+      return `${data.slice(0, at)}\n${embed}${data.slice(at)}`;
+    });
+    return inserted;
+  }
 }
 
 class MermaidZoomSettingTab extends PluginSettingTab {
@@ -758,24 +1298,28 @@ class MermaidZoomSettingTab extends PluginSettingTab {
           }
         }));
 
-    containerEl.createEl("h3", { text: "Gemini 連携" });
+    containerEl.createEl("h3", { text: "LLM 連携" });
     new Setting(containerEl)
-      .setName("Gemini API Key")
-      .setDesc("Google AI Studio で取得したAPIキー。ローカルにのみ保存されます。")
-      .addText((t) => t.setPlaceholder("AIza…").setValue(this.plugin.settings.geminiApiKey ?? "")
+      .setName("プロバイダ")
+      .setDesc("構文修正に使用するLLMプロバイダを選択します。")
+      .addDropdown((d) => d.addOption("gemini", "Gemini").addOption("openai", "OpenAI互換 (Chat Completions)").addOption("ollama", "Ollama")
+        .setValue(this.plugin.settings.llmProvider)
         .onChange(async (v) => {
-          this.plugin.settings.geminiApiKey = v.trim();
+          this.plugin.settings.llmProvider = v as LlmProviderId;
           await this.plugin.saveData(this.plugin.settings);
+          this.display();
         }));
 
-    new Setting(containerEl)
-      .setName("Model")
-      .setDesc("使用するモデル名。例: gemini-1.5-flash-latest / gemini-2.0-flash-exp など")
-      .addText((t) => t.setValue(this.plugin.settings.geminiModel)
-        .onChange(async (v) => {
-          this.plugin.settings.geminiModel = v.trim() || "gemini-1.5-flash-latest";
-          await this.plugin.saveData(this.plugin.settings);
-        }));
+    switch (this.plugin.settings.llmProvider) {
+      case "openai":
+        this.displayOpenAiSettings(containerEl);
+        break;
+      case "ollama":
+        this.displayOllamaSettings(containerEl);
+        break;
+      default:
+        this.displayGeminiSettings(containerEl);
+    }
 
     new Setting(containerEl)
       .setName("適用モード")
@@ -789,7 +1333,7 @@ class MermaidZoomSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("リクエストタイムアウト (ms)")
-      .setDesc("Gemini APIからの応答を待つ最大時間（ミリ秒）。AbortControllerで中断します。")
+      .setDesc("LLMからの応答を待つ最大時間（ミリ秒）。AbortControllerで中断します。")
       .addText((t) => t.setPlaceholder("30000").setValue(String(this.plugin.settings.requestTimeoutMs))
         .onChange(async (v) => {
           const n = Number(v);
@@ -799,6 +1343,62 @@ class MermaidZoomSettingTab extends PluginSettingTab {
           }
         }));
 
+    new Setting(containerEl)
+      .setName("毎分のリクエスト数")
+      .setDesc("LLMへのリクエストを1分あたりこの回数までに抑えます（0で無制限）。無料枠のレート制限に合わせて設定してください。")
+      .addText((t) => t.setPlaceholder("15").setValue(String(this.plugin.settings.llmRequestsPerMinute))
+        .onChange(async (v) => {
+          const n = Number(v);
+          if (Number.isInteger(n) && n >= 0) {
+            this.plugin.settings.llmRequestsPerMinute = n;
+            await this.plugin.saveData(this.plugin.settings);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName("同時リクエスト数")
+      .setDesc("同時に送るリクエストの上限。全ファイル処理では、この数までのノートを並行して処理します（修正プレビューは1件ずつ表示）。")
+      .addText((t) => t.setPlaceholder("2").setValue(String(this.plugin.settings.llmConcurrency))
+        .onChange(async (v) => {
+          const n = Number(v);
+          if (Number.isInteger(n) && n > 0) {
+            this.plugin.settings.llmConcurrency = n;
+            await this.plugin.saveData(this.plugin.settings);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName("再試行回数")
+      .setDesc("レート制限（429）・サーバーエラー（5xx）・タイムアウトのときに再試行する回数。間隔は指数的に延ばし、Retry-After があればそれに従います。")
+      .addText((t) => t.setPlaceholder("3").setValue(String(this.plugin.settings.llmMaxRetries))
+        .onChange(async (v) => {
+          const n = Number(v);
+          if (Number.isInteger(n) && n >= 0) {
+            this.plugin.settings.llmMaxRetries = n;
+            await this.plugin.saveData(this.plugin.settings);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName("修正候補の数")
+      .setDesc("2以上にすると、1回の試行で複数の修正案を生成して検証し、通ったものを元のコードからの変更が小さい順にプレビューで選べるようにします（Gemini・OpenAI互換は1回のリクエストで、Ollama は温度を変えて候補の数だけ問い合わせます）。この場合、修正キャッシュは使いません。")
+      .addText((t) => t.setPlaceholder("1").setValue(String(this.plugin.settings.fixCandidateCount))
+        .onChange(async (v) => {
+          const n = Number(v);
+          if (Number.isInteger(n) && n >= 1 && n <= 8) {
+            this.plugin.settings.fixCandidateCount = n;
+            await this.plugin.saveData(this.plugin.settings);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName("このセッションの使用量")
+      .setDesc(formatLlmUsage(this.plugin.llmScheduler.snapshot))
+      .addButton((b) => b.setButtonText("リセット").onClick(() => {
+        this.plugin.llmScheduler.resetUsage();
+        this.display();
+      }));
+
     new Setting(containerEl)
       .setName("%%{init}%% ディレクティブを保持")
       .setDesc("修正時に、元のコードに含まれるテーマ指定などの `init` ディレクティブを維持します。")
@@ -807,5 +1407,269 @@ class MermaidZoomSettingTab extends PluginSettingTab {
           this.plugin.settings.preserveInitDirective = val;
           await this.plugin.saveData(this.plugin.settings);
         }));
+
+    new Setting(containerEl)
+      .setName("修正キャッシュの上限件数")
+      .setDesc("検証に通ったLLM修正を履歴として保存し、同じモデル・同じエラーの図には再起動後も再利用します。上限を超えると最近使われていないものから削除します。")
+      .addText((t) => t.setPlaceholder("200").setValue(String(this.plugin.settings.fixCacheMaxEntries))
+        .onChange(async (v) => {
+          const n = Number(v);
+          if (Number.isInteger(n) && n >= 0) {
+            this.plugin.settings.fixCacheMaxEntries = n;
+            await this.plugin.saveData(this.plugin.settings);
+            await this.plugin.fixHistory.trim();
+          }
+        }))
+      .addButton((b) => b.setButtonText("履歴を開く").onClick(() => { void this.plugin.activateFixHistoryView(); }))
+      .addButton((b) => b.setButtonText("すべて削除").setWarning().onClick(async () => {
+        await this.plugin.fixHistory.clear();
+        new Notice("修正履歴とキャッシュを削除しました。");
+      }));
+
+    containerEl.createEl("h3", { text: "エクスポート" });
+    new Setting(containerEl)
+      .setName("既定の形式")
+      .setDesc("コマンドからエクスポートする際のファイル形式。PNG/PDF は解像度スケールを使用します。")
+      .addDropdown((d) => d.addOption("svg", "SVG").addOption("png", "PNG").addOption("pdf", "PDF")
+        .setValue(this.plugin.settings.exportFormat)
+        .onChange(async (v) => {
+          this.plugin.settings.exportFormat = v as ExportFormat;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("ファイル名テンプレート")
+      .setDesc("{{note}}: ノート名 / {{index}}: ブロック番号 / {{date}} または {{date:YYYY-MM-DD}}: 日時。保存先は添付ファイルフォルダです。")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.exportFileNameTemplate).setValue(this.plugin.settings.exportFileNameTemplate)
+        .onChange(async (v) => {
+          this.plugin.settings.exportFileNameTemplate = v.trim() || DEFAULT_SETTINGS.exportFileNameTemplate;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("埋め込みリンクを挿入")
+      .setDesc("エクスポート後、元のコードブロックの直後に ![[...]] 形式の埋め込みリンクを挿入します。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.exportInsertEmbed)
+        .onChange(async (val) => {
+          this.plugin.settings.exportInsertEmbed = val;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("フォントを埋め込む")
+      .setDesc("使用しているフォントをSVGに埋め込み、フォントが入っていない環境（Inkscape等）やPNG化でも同じ字形で表示します。@font-face で読み込まれたフォントのみ対象で、使用文字を含む unicode-range の面だけを埋め込みます。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.exportEmbedFonts)
+        .onChange(async (val) => {
+          this.plugin.settings.exportEmbedFonts = val;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("一括エクスポート先フォルダ")
+      .setDesc("一括エクスポートの出力先。manifest.json に元ノート/ブロック番号と出力パスの対応を記録し、未変更の図は再出力しません。")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.bulkExportFolder).setValue(this.plugin.settings.bulkExportFolder)
+        .onChange(async (v) => {
+          this.plugin.settings.bulkExportFolder = v.trim() || DEFAULT_SETTINGS.bulkExportFolder;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    containerEl.createEl("h3", { text: "一括修正" });
+    new Setting(containerEl)
+      .setName("ドライランレポートの保存先")
+      .setDesc("全ファイル修正のドライランで作成するレポートノートのフォルダ。")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.fixReportFolder).setValue(this.plugin.settings.fixReportFolder)
+        .onChange(async (v) => {
+          this.plugin.settings.fixReportFolder = v.trim() || DEFAULT_SETTINGS.fixReportFolder;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    containerEl.createEl("h3", { text: "ズーム表示" });
+    new Setting(containerEl)
+      .setName("図をクリックしたときの表示方法")
+      .setDesc("タブ表示では分割・ピン留めができ、元のブロックを編集すると自動で再描画されます。")
+      .addDropdown((dd) => dd
+        .addOption("overlay", "オーバーレイ")
+        .addOption("tab", "タブ")
+        .setValue(this.plugin.settings.zoomOpenMode)
+        .onChange(async (v) => {
+          this.plugin.settings.zoomOpenMode = v as "overlay" | "tab";
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+    new Setting(containerEl)
+      .setName("ミニマップを表示")
+      .setDesc("拡大表示中に図全体と表示範囲を右下に表示します。ツールバーや m キーでも切り替えられます。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.zoomMinimap)
+        .onChange(async (val) => {
+          this.plugin.settings.zoomMinimap = val;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("背景")
+      .setDesc("拡大表示と、そこからのコピー・保存に使う背景です。")
+      .addDropdown((dd) => dd
+        .addOption("white", "白")
+        .addOption("theme", "Obsidian のテーマに合わせる")
+        .addOption("transparent", "透明")
+        .addOption("custom", "指定した色")
+        .setValue(this.plugin.settings.zoomBackground)
+        .onChange(async (v) => {
+          this.plugin.settings.zoomBackground = v as ZoomBackground;
+          await this.plugin.saveData(this.plugin.settings);
+          this.plugin.refreshZoomViews();
+          this.display();
+        }));
+    if (this.plugin.settings.zoomBackground === "custom") {
+      new Setting(containerEl)
+        .setName("背景色")
+        .addColorPicker((cp) => cp.setValue(this.plugin.settings.zoomBackgroundColor)
+          .onChange(async (v) => {
+            this.plugin.settings.zoomBackgroundColor = v;
+            await this.plugin.saveData(this.plugin.settings);
+            this.plugin.refreshZoomViews();
+          }));
+    }
+    new Setting(containerEl)
+      .setName("Mermaid テーマ")
+      .setDesc("拡大表示ではこのテーマで図を描き直します。ブロック内の %%{init}%% で指定したテーマが優先されます。")
+      .addDropdown((dd) => dd
+        .addOption("inherit", "Obsidian の設定のまま")
+        .addOption("default", "default")
+        .addOption("dark", "dark")
+        .addOption("forest", "forest")
+        .addOption("neutral", "neutral")
+        .addOption("base", "base（themeVariables で配色を指定）")
+        .setValue(this.plugin.settings.zoomMermaidTheme)
+        .onChange(async (v) => {
+          this.plugin.settings.zoomMermaidTheme = v as ZoomMermaidTheme;
+          await this.plugin.saveData(this.plugin.settings);
+          this.plugin.refreshZoomViews();
+        }));
+    new Setting(containerEl)
+      .setName("themeVariables")
+      .setDesc('Mermaid の themeVariables を JSON で指定します（例: {"primaryColor": "#ffcc00"}）。空欄なら指定しません。')
+      .addTextArea((ta) => {
+        ta.setPlaceholder('{"primaryColor": "#ffcc00"}').setValue(this.plugin.settings.zoomThemeVariables);
+        ta.inputEl.rows = 3;
+        ta.inputEl.addEventListener("blur", async () => {
+          const value = ta.getValue();
+          try {
+            parseThemeVariables(value);
+          } catch (e: any) {
+            new Notice(`themeVariables を保存できません: ${e?.message ?? String(e)}`);
+            return;
+          }
+          if (value === this.plugin.settings.zoomThemeVariables) return;
+          this.plugin.settings.zoomThemeVariables = value;
+          await this.plugin.saveData(this.plugin.settings);
+          this.plugin.refreshZoomViews();
+        });
+      });
+
+    containerEl.createEl("h3", { text: "エディタ" });
+    new Setting(containerEl)
+      .setName("入力中に構文チェック")
+      .setDesc("編集中のMermaidブロックを自動で検証し、エラー箇所に下線とガターマーカーを表示します。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.liveLint)
+        .onChange(async (val) => {
+          this.plugin.settings.liveLint = val;
+          await this.plugin.saveData(this.plugin.settings);
+          this.plugin.updateEditorExtensions();
+        }));
+    new Setting(containerEl)
+      .setName("構文ハイライト")
+      .setDesc("Mermaidブロック内のキーワード・矢印・ノードの括弧・%%{init}%% ディレクティブを色分けします。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.editorHighlight)
+        .onChange(async (val) => {
+          this.plugin.settings.editorHighlight = val;
+          await this.plugin.saveData(this.plugin.settings);
+          this.plugin.updateEditorExtensions();
+        }));
+    new Setting(containerEl)
+      .setName("入力補完")
+      .setDesc("Mermaidブロック内で図の種類・キーワード・ブロック内のノードID・図の種類に合った矢印を候補として表示します。")
+      .addToggle((tog) => tog.setValue(this.plugin.settings.editorAutocomplete)
+        .onChange(async (val) => {
+          this.plugin.settings.editorAutocomplete = val;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+  }
+
+  private displayGeminiSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Gemini API Key")
+      .setDesc("Google AI Studio で取得したAPIキー。ローカルにのみ保存されます。")
+      .addText((t) => t.setPlaceholder("AIza…").setValue(this.plugin.settings.geminiApiKey ?? "")
+        .onChange(async (v) => {
+          this.plugin.settings.geminiApiKey = v.trim();
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("Model")
+      .setDesc("使用するモデル名。例: gemini-1.5-flash-latest / gemini-2.0-flash-exp など")
+      .addText((t) => t.setValue(this.plugin.settings.geminiModel)
+        .onChange(async (v) => {
+          this.plugin.settings.geminiModel = v.trim() || "gemini-1.5-flash-latest";
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("エンドポイント")
+      .setDesc("Generative Language API のベースURL。プロキシやモックサーバー利用時に変更します。")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.geminiBaseUrl).setValue(this.plugin.settings.geminiBaseUrl)
+        .onChange(async (v) => {
+          this.plugin.settings.geminiBaseUrl = v.trim() || DEFAULT_SETTINGS.geminiBaseUrl;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+  }
+
+  private displayOpenAiSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("ベースURL")
+      .setDesc("`/chat/completions` を持つエンドポイントのベースURL。例: https://api.openai.com/v1")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.openaiBaseUrl).setValue(this.plugin.settings.openaiBaseUrl)
+        .onChange(async (v) => {
+          this.plugin.settings.openaiBaseUrl = v.trim() || DEFAULT_SETTINGS.openaiBaseUrl;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("API Key")
+      .setDesc("Bearer トークンとして送信します。不要なゲートウェイでは空欄のままにします。")
+      .addText((t) => t.setPlaceholder("sk-…").setValue(this.plugin.settings.openaiApiKey ?? "")
+        .onChange(async (v) => {
+          this.plugin.settings.openaiApiKey = v.trim();
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("Model")
+      .setDesc("使用するモデル名。例: gpt-4o-mini")
+      .addText((t) => t.setValue(this.plugin.settings.openaiModel)
+        .onChange(async (v) => {
+          this.plugin.settings.openaiModel = v.trim();
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+  }
+
+  private displayOllamaSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("ベースURL")
+      .setDesc("Ollama サーバーのURL。例: http://localhost:11434")
+      .addText((t) => t.setPlaceholder(DEFAULT_SETTINGS.ollamaBaseUrl).setValue(this.plugin.settings.ollamaBaseUrl)
+        .onChange(async (v) => {
+          this.plugin.settings.ollamaBaseUrl = v.trim() || DEFAULT_SETTINGS.ollamaBaseUrl;
+          await this.plugin.saveData(this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName("Model")
+      .setDesc("`ollama list` に表示されるモデル名。例: llama3.1 / qwen2.5-coder")
+      .addText((t) => t.setValue(this.plugin.settings.ollamaModel)
+        .onChange(async (v) => {
+          this.plugin.settings.ollamaModel = v.trim();
+          await this.plugin.saveData(this.plugin.settings);
+        }));
   }
 }
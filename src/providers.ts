@@ -0,0 +1,240 @@
+// LLM プロバイダ層（Gemini / OpenAI互換 / Ollama）
+import { MermaidZoomPluginSettings, LlmProviderId } from "./types";
+
+/** プロバイダへ渡す生成パラメータ（プロンプトは単一のユーザーメッセージ） */
+export type LlmRequest = {
+  prompt: string;
+  temperature: number;
+  maxOutputTokens: number;
+  /** completeCandidates で受け取る候補の数 */
+  candidateCount?: number;
+};
+
+/** すべてのプロバイダが満たすインターフェース。戻り値は生テキスト（センチネル抽出前）。 */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly label: string;
+  /** 使用するモデル名（履歴などの表示用） */
+  readonly model: string;
+  /** memo キーに使う識別子（エンドポイント＋モデル） */
+  readonly cacheKey: string;
+  complete(req: LlmRequest, signal: AbortSignal): Promise<string>;
+  /** 1回のリクエストで複数の候補を返せるプロバイダだけが実装する */
+  completeCandidates?(req: LlmRequest, signal: AbortSignal): Promise<string[]>;
+}
+
+type GeminiFinishReason = "STOP" | "MAX_TOKENS" | "SAFETY" | "RECITATION" | "OTHER" | string;
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/** HTTP エラー。再試行の判定用にステータスと Retry-After（ミリ秒）を持つ */
+export class LlmHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "LlmHttpError";
+  }
+}
+
+/** Retry-After ヘッダ（秒数または HTTP 日付）をミリ秒に */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** HTTP エラーを共通の文言に変換（plugin 側の中断判定は文言で行う） */
+function httpError(label: string, status: number, text: string, notFoundHint: string, retryAfterMs: number | null): LlmHttpError {
+  const message = httpErrorMessage(label, status, text, notFoundHint);
+  return new LlmHttpError(message, status, retryAfterMs);
+}
+
+function httpErrorMessage(label: string, status: number, text: string, notFoundHint: string): string {
+  if (status === 401 || status === 403) {
+    return `${label} API 認証エラー (${status}). APIキーやプロジェクト設定を確認してください。応答: ${text}`;
+  }
+  if (status === 404 && /not found/i.test(text)) {
+    return `モデルが見つかりません (${notFoundHint}). モデル名とエンドポイントの組み合わせを確認してください。応答: ${text}`;
+  }
+  if (status === 429) {
+    return `レート制限に到達しました (429)。応答: ${text}`;
+  }
+  if (status >= 500) {
+    return `${label} サーバーエラー (${status})。応答: ${text}`;
+  }
+  return `${label} API エラー: ${status} ${text}`;
+}
+
+async function postJson(label: string, url: string, headers: Record<string, string>, body: any, signal: AbortSignal, notFoundHint: string): Promise<any> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (e: any) {
+    if (e?.name === "AbortError") throw e;
+    throw new Error(`${label} への接続に失敗しました (${url})。エンドポイントを確認してください: ${e?.message ?? String(e)}`);
+  }
+
+  const text = await res.text().catch(() => "");
+  if (!res.ok) throw httpError(label, res.status, text, notFoundHint, parseRetryAfter(res.headers.get("retry-after")));
+
+  try { return text ? JSON.parse(text) : {}; } catch {
+    throw new Error(`${label}応答のJSON解析に失敗しました。生データ: ${text.slice(0, 400)}`);
+  }
+}
+
+/** Google Generative Language API（generateContent） */
+export class GeminiProvider implements LlmProvider {
+  readonly id = "gemini" as const;
+  readonly label = "Gemini";
+
+  constructor(
+    private apiKey: string,
+    readonly model: string,
+    private version: "v1" | "v1beta" = "v1beta",
+    private baseUrl = "https://generativelanguage.googleapis.com"
+  ) {}
+
+  get cacheKey(): string {
+    return `gemini::${this.version}::${this.model}`;
+  }
+
+  async complete(req: LlmRequest, signal: AbortSignal): Promise<string> {
+    return (await this.generate({ ...req, candidateCount: 1 }, signal))[0];
+  }
+
+  async completeCandidates(req: LlmRequest, signal: AbortSignal): Promise<string[]> {
+    return this.generate(req, signal);
+  }
+
+  private async generate(req: LlmRequest, signal: AbortSignal): Promise<string[]> {
+    const url = `${trimSlash(this.baseUrl)}/${this.version}/models/${encodeURIComponent(this.model)}:generateContent?key=${encodeURIComponent(this.apiKey)}`;
+    const body = {
+      contents: [{ role: "user", parts: [{ text: req.prompt }] }],
+      generationConfig: {
+        temperature: req.temperature,
+        topP: 1.0,
+        maxOutputTokens: req.maxOutputTokens,
+        candidateCount: req.candidateCount ?? 1
+      }
+    };
+    const data = await postJson("Gemini", url, {}, body, signal, this.version);
+
+    const candidates: any[] = data?.candidates ?? [];
+    if (candidates.length === 0) {
+      const feedback = data?.promptFeedback;
+      const reason = feedback?.blockReason ?? "候補が返されませんでした";
+      const ratings = (feedback?.safetyRatings ?? []).map((r: any) => `${r.category}:${r.probability}`).join(", ");
+      throw new Error(`Geminiからの応答が不正です。理由: ${reason}${ratings ? `（詳細: ${ratings}）` : ""}`);
+    }
+
+    // 完了しなかった候補は捨てる（すべてだめなら最初の候補の理由でエラー）
+    const finished = candidates.filter((c) => {
+      const finishReason: GeminiFinishReason = c?.finishReason;
+      return !finishReason || finishReason === "STOP" || finishReason === "MAX_TOKENS";
+    });
+    if (finished.length === 0) {
+      throw new Error(`生成が完了しませんでした。finishReason=${candidates[0].finishReason}`);
+    }
+
+    // ここでは「空でも」エラーにしない。センチネル抽出後に判断する。
+    return finished.map((c) => (c?.content?.parts ?? []).map((p: any) => p?.text ?? "").join(""));
+  }
+}
+
+/** OpenAI 互換 Chat Completions（/v1/chat/completions を持つゲートウェイ全般） */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = "openai" as const;
+  readonly label = "OpenAI互換";
+
+  constructor(private baseUrl: string, private apiKey: string, readonly model: string) {}
+
+  get cacheKey(): string {
+    return `openai::${trimSlash(this.baseUrl)}::${this.model}`;
+  }
+
+  async complete(req: LlmRequest, signal: AbortSignal): Promise<string> {
+    return (await this.generate({ ...req, candidateCount: 1 }, signal))[0];
+  }
+
+  async completeCandidates(req: LlmRequest, signal: AbortSignal): Promise<string[]> {
+    return this.generate(req, signal);
+  }
+
+  private async generate(req: LlmRequest, signal: AbortSignal): Promise<string[]> {
+    const url = `${trimSlash(this.baseUrl)}/chat/completions`;
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const body = {
+      model: this.model,
+      messages: [{ role: "user", content: req.prompt }],
+      temperature: req.temperature,
+      max_tokens: req.maxOutputTokens,
+      n: req.candidateCount ?? 1
+    };
+    const data = await postJson(this.label, url, headers, body, signal, this.model);
+
+    const choices: any[] = data?.choices ?? [];
+    if (choices.length === 0) {
+      const reason = data?.error?.message ?? "候補が返されませんでした";
+      throw new Error(`${this.label}からの応答が不正です。理由: ${reason}`);
+    }
+    const finished = choices.filter((c) => {
+      const finishReason: string | undefined = c?.finish_reason;
+      return !finishReason || finishReason === "stop" || finishReason === "length";
+    });
+    if (finished.length === 0) {
+      throw new Error(`生成が完了しませんでした。finishReason=${choices[0].finish_reason}`);
+    }
+    return finished.map((c) => String(c?.message?.content ?? ""));
+  }
+}
+
+/** Ollama（/api/chat, stream: false） */
+export class OllamaProvider implements LlmProvider {
+  readonly id = "ollama" as const;
+  readonly label = "Ollama";
+
+  constructor(private baseUrl: string, readonly model: string) {}
+
+  get cacheKey(): string {
+    return `ollama::${trimSlash(this.baseUrl)}::${this.model}`;
+  }
+
+  async complete(req: LlmRequest, signal: AbortSignal): Promise<string> {
+    const url = `${trimSlash(this.baseUrl)}/api/chat`;
+    const body = {
+      model: this.model,
+      messages: [{ role: "user", content: req.prompt }],
+      stream: false,
+      options: { temperature: req.temperature, num_predict: req.maxOutputTokens }
+    };
+    const data = await postJson(this.label, url, {}, body, signal, this.model);
+    if (data?.error) throw new Error(`${this.label}からの応答が不正です。理由: ${data.error}`);
+    return String(data?.message?.content ?? "");
+  }
+}
+
+/** 設定からプロバイダを生成。必須項目が欠けていれば null と理由を返す。 */
+export function createLlmProvider(settings: MermaidZoomPluginSettings): { provider: LlmProvider | null; error?: string } {
+  switch (settings.llmProvider) {
+    case "openai":
+      if (!settings.openaiBaseUrl) return { provider: null, error: "OpenAI互換エンドポイントのURLが未設定です。設定画面から登録してください。" };
+      if (!settings.openaiModel) return { provider: null, error: "OpenAI互換のモデル名が未設定です。設定画面から登録してください。" };
+      return { provider: new OpenAiCompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey ?? "", settings.openaiModel) };
+    case "ollama":
+      if (!settings.ollamaBaseUrl) return { provider: null, error: "OllamaのURLが未設定です。設定画面から登録してください。" };
+      if (!settings.ollamaModel) return { provider: null, error: "Ollamaのモデル名が未設定です。設定画面から登録してください。" };
+      return { provider: new OllamaProvider(settings.ollamaBaseUrl, settings.ollamaModel) };
+    case "gemini":
+    default:
+      if (!settings.geminiApiKey) return { provider: null, error: "Gemini APIキーが未設定です。設定画面から登録してください。" };
+      return { provider: new GeminiProvider(settings.geminiApiKey, settings.geminiModel, "v1beta", settings.geminiBaseUrl || undefined) };
+  }
+}
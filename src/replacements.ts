@@ -1,4 +1,5 @@
 import { Editor } from "obsidian";
+import { OffsetRangeReplacement } from "./types";
 import { clamp, offsetToPosFallback } from "./utils";
 
 export function applyReplacementsReverse(editor: Editor, reps: { start: number; end: number; text: string }[]) {
@@ -13,3 +14,23 @@ export function applyReplacementsReverse(editor: Editor, reps: { start: number;
   }
 }
 
+
+/**
+ * 文字列に逆順で置換を適用する。expected が指定された置換は、現在の内容と一致した場合のみ適用し、
+ * 一致しないもの（読み込み後に編集されたもの）は drifted として返す。
+ */
+export function applyReplacementsChecked(content: string, reps: OffsetRangeReplacement[]): { content: string; applied: OffsetRangeReplacement[]; drifted: OffsetRangeReplacement[] } {
+  const applied: OffsetRangeReplacement[] = [];
+  const drifted: OffsetRangeReplacement[] = [];
+  let result = content;
+  for (const r of [...reps].sort((a, b) => b.start - a.start)) {
+    const inRange = r.start >= 0 && r.end >= r.start && r.end <= result.length;
+    if (!inRange || (r.expected !== undefined && result.slice(r.start, r.end) !== r.expected)) {
+      drifted.push(r);
+      continue;
+    }
+    result = result.slice(0, r.start) + r.text + result.slice(r.end);
+    applied.push(r);
+  }
+  return { content: result, applied, drifted };
+}
@@ -0,0 +1,108 @@
+// 一括修正ドライランのレポートノート（生成・解析）
+import { moment } from "obsidian";
+import { FixReportItem } from "./types";
+import { calculateDiff } from "./utils";
+
+const REPORT_MARKER = "<!-- mermaid-fix-report -->";
+const DATA_BEGIN = "%% mermaid-fix-report-data";
+const DATA_END = "%%";
+export const REPORT_APPLIED_NOTE = "適用済み";
+
+export function isFixReport(text: string): boolean {
+  return text.includes(REPORT_MARKER);
+}
+
+/** 本文中のフェンスと衝突しない長さのバッククォートを選ぶ */
+function fenceFor(code: string): string {
+  const longest = (code.match(/`{3,}/g) ?? []).reduce((n, m) => Math.max(n, m.length), 0);
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+export function buildFixReport(items: FixReportItem[], failed: { path: string; blockIndex: number; error: string }[], createdAt: Date): string {
+  const lines: string[] = [
+    REPORT_MARKER,
+    `# Mermaid 一括修正レポート（ドライラン）`,
+    "",
+    `- 作成日時: ${moment(createdAt).format("YYYY-MM-DD HH:mm:ss")}`,
+    `- 修正案: ${items.length}件 / 修正できなかったブロック: ${failed.length}件`,
+    "",
+    "適用したい項目にチェックを入れ、このノートを開いた状態で「Mermaid: レポートのチェック済み修正を適用」を実行してください。",
+    "",
+  ];
+
+  for (const item of items) {
+    const diff = calculateDiff(item.original, item.proposed)
+      .map(d => `${d.type === "added" ? "+" : d.type === "removed" ? "-" : " "} ${d.content}`)
+      .join("\n");
+    const codeFence = fenceFor(item.proposed);
+    const diffFence = fenceFor(diff);
+    lines.push(
+      `## ${item.path} #${item.blockIndex + 1}`,
+      "",
+      `- [ ] 適用する \`${item.id}\``,
+      "",
+      "**元のエラー**",
+      "",
+      ...item.error.split("\n").map(l => `> ${l}`),
+      "",
+      "**修正案**",
+      "",
+      `${codeFence}mermaid`,
+      item.proposed,
+      codeFence,
+      "",
+      "**差分**",
+      "",
+      `${diffFence}diff`,
+      diff,
+      diffFence,
+      "",
+    );
+  }
+
+  if (failed.length > 0) {
+    lines.push("## 修正できなかったブロック", "");
+    failed.forEach(f => lines.push(`- ${f.path} #${f.blockIndex + 1}: ${f.error.split("\n")[0]}`));
+    lines.push("");
+  }
+
+  // 適用に必要な元コード等は非表示コメントに保持する。
+  // コード中の %%（%%{init}%% やコメント行）でコメントが閉じないよう % はエスケープする（JSON.parse でそのまま戻る）
+  lines.push(DATA_BEGIN, JSON.stringify({ version: 1, items }).replace(/%/g, "\\u0025"), DATA_END, "");
+  return lines.join("\n");
+}
+
+/** レポートから項目データとチェック済み ID を取り出す。レポートでなければ null */
+export function parseFixReport(text: string): { items: FixReportItem[]; checked: Set<string> } | null {
+  if (!isFixReport(text)) return null;
+  const start = text.lastIndexOf(DATA_BEGIN);
+  if (start < 0) return null;
+  const bodyStart = start + DATA_BEGIN.length;
+  const end = text.indexOf(`\n${DATA_END}`, bodyStart);
+  if (end < 0) return null;
+
+  let items: FixReportItem[];
+  try {
+    const parsed = JSON.parse(text.slice(bodyStart, end).trim());
+    items = Array.isArray(parsed?.items) ? parsed.items : [];
+  } catch {
+    return null;
+  }
+
+  // 適用済みの項目は再適用しない
+  const checked = new Set<string>();
+  const re = /^\s*[-*] \[[xX]\] .*`(mfr-\d+)`(.*)$/gm;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (!m[2].includes(REPORT_APPLIED_NOTE)) checked.add(m[1]);
+  }
+  return { items, checked };
+}
+
+/** 適用した項目のチェック行に結果を追記する */
+export function markReportItems(text: string, results: Map<string, string>): string {
+  return text.replace(/^(\s*[-*] \[[xX ]\] .*`(mfr-\d+)`)(.*)$/gm, (line, head, id) => {
+    const note = results.get(id);
+    return note ? `${head} — ${note}` : line;
+  });
+}
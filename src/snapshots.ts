@@ -0,0 +1,72 @@
+// 一括修正のスナップショット保存と取り消し
+import { App, TFile, normalizePath } from "obsidian";
+import { BatchFileSnapshot, BatchSnapshot } from "./types";
+
+export type RevertResult = { restored: string[]; conflicted: string[]; missing: string[] };
+
+/** 直前1回分の一括修正を、プラグインフォルダ内の JSON に保存する */
+export class BatchSnapshotStore {
+  private path: string;
+
+  constructor(private app: App, pluginDir: string) {
+    this.path = normalizePath(`${pluginDir}/last-batch.json`);
+  }
+
+  async load(): Promise<BatchSnapshot | null> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.path))) return null;
+      const parsed = JSON.parse(await this.app.vault.adapter.read(this.path));
+      return parsed && Array.isArray(parsed.files) ? parsed as BatchSnapshot : null;
+    } catch (e) {
+      console.error("一括修正スナップショットの読み込みに失敗しました:", e);
+      return null;
+    }
+  }
+
+  async save(files: BatchFileSnapshot[]): Promise<BatchSnapshot> {
+    const snapshot: BatchSnapshot = {
+      id: Date.now().toString(36),
+      createdAt: new Date().toISOString(),
+      files,
+    };
+    await this.app.vault.adapter.write(this.path, JSON.stringify(snapshot));
+    return snapshot;
+  }
+
+  async clear(): Promise<void> {
+    if (await this.app.vault.adapter.exists(this.path)) await this.app.vault.adapter.remove(this.path);
+  }
+
+  /**
+   * スナップショットを復元する。修正後に更に編集されたファイルは上書きせず conflicted として返す。
+   * 全ファイルが処理済みになった場合のみスナップショットを破棄する。
+   */
+  async revert(snapshot: BatchSnapshot): Promise<RevertResult> {
+    const result: RevertResult = { restored: [], conflicted: [], missing: [] };
+    const remaining: BatchFileSnapshot[] = [];
+
+    for (const entry of snapshot.files) {
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      if (!(file instanceof TFile)) {
+        result.missing.push(entry.path);
+        continue;
+      }
+      let restored = false;
+      await this.app.vault.process(file, (data) => {
+        if (data !== entry.after) return data;
+        restored = true;
+        return entry.before;
+      });
+      if (restored) {
+        result.restored.push(entry.path);
+      } else {
+        result.conflicted.push(entry.path);
+        remaining.push(entry);
+      }
+    }
+
+    if (remaining.length === 0) await this.clear();
+    else await this.app.vault.adapter.write(this.path, JSON.stringify({ ...snapshot, files: remaining }));
+    return result;
+  }
+}
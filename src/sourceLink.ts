@@ -0,0 +1,126 @@
+// Markdown ソースの行と図のノードを相互に対応付ける
+import { Extension } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+import { inferDiagramType } from "./utils";
+import { nodeIdOf } from "./nodeSearch";
+
+// 英数字・かな・漢字。途中の . と - も許すが、矢印と区別するため端には置かない
+const ID_CHAR = "[\\w\\u3040-\\u30ff\\u4e00-\\u9fff]";
+const ID = `${ID_CHAR}(?:[\\w\\u3040-\\u30ff\\u4e00-\\u9fff.-]*${ID_CHAR})?`;
+const LEADING_ID = new RegExp(`^(${ID})`);
+// ラベル部分（"…" / |…| / 括弧内）を取り除くと、残りは ID・矢印・& だけになる
+const LABEL_RE = /"[^"]*"|\|[^|]*\||\[[^\]]*\]|\([^)]*\)|\{[^}]*\}/g;
+// 非対称シェイプ A>label] は矢印の > と紛らわしいので、括弧ラベルを除いた後に残った ] で判定する
+const ASYMMETRIC_RE = new RegExp(`(${ID})>[^\\]]*\\]`, "g");
+const ARROW_SPLIT = /\s*(?:<?(?:-{2,}|={2,}|-\.+-|~{3})[>xo]?|&)\s*/;
+const SHAPE_AFTER_ID = /^\s*(?:\[|\(|\{|>)/;
+
+function diagramOf(code: string): string | null {
+  const body = code.split("\n").filter(l => l.trim() !== "" && !l.trim().startsWith("%%")).join("\n");
+  return inferDiagramType(body);
+}
+
+/** sequenceDiagram の participant / actor の別名（ID → 表示名） */
+function sequenceAliases(code: string): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const line of code.split("\n")) {
+    const m = line.trim().match(/^(?:participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/);
+    if (m) aliases.set(m[1], m[2]?.trim() || m[1]);
+  }
+  return aliases;
+}
+
+function flowchartIds(line: string): string[] {
+  const t = line.trim();
+  if (!t || t.startsWith("%%") || /^(flowchart|graph|end|direction|classDef|linkStyle)\b/.test(t)) return [];
+  let m = t.match(/^subgraph\s+(\S+?)(?:\[|\s|$)/);
+  if (m) return [m[1]];
+  m = t.match(/^(?:style|click)\s+(\S+)/);
+  if (m) return [m[1]];
+  m = t.match(/^class\s+(\S+)\s+\S+/);
+  if (m) return m[1].split(",").filter(Boolean);
+  const ids: string[] = [];
+  for (const part of t.replace(LABEL_RE, "").replace(ASYMMETRIC_RE, "$1").split(ARROW_SPLIT)) {
+    const id = part.trim().replace(/:::\S+$/, "").match(LEADING_ID)?.[1];
+    if (id && !ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+function sequenceIds(line: string): string[] {
+  const t = line.trim();
+  const p = t.match(/^(?:participant|actor)\s+(\S+)/);
+  if (p) return [p[1]];
+  const m = t.match(/^([^\s:>-]+)\s*(?:-{1,2}>>|-{1,2}>|-{1,2}x|-{1,2}\))\s*[+-]?([^\s:]+)\s*:/);
+  return m ? [...new Set([m[1], m[2]])] : [];
+}
+
+/** ブロック内の line 行目（0 始まり）が参照しているノードID */
+export function nodeIdsOnLine(code: string, line: number): string[] {
+  const text = code.split("\n")[line];
+  if (text === undefined) return [];
+  return diagramOf(code) === "sequenceDiagram" ? sequenceIds(text) : flowchartIds(text);
+}
+
+/** ノードを定義している行（0 始まり）。形状付きの行を優先し、なければ最初に現れた行 */
+export function findDefinitionLine(code: string, nodeId: string): number | null {
+  const lines = code.split("\n");
+  const sequence = diagramOf(code) === "sequenceDiagram";
+  let first: number | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    if (!nodeIdsOnLine(code, i).includes(nodeId)) continue;
+    first ??= i;
+    const t = lines[i].trim();
+    if (sequence ? /^(participant|actor)\s/.test(t) : /^subgraph\s/.test(t)) return i;
+    const at = lines[i].indexOf(nodeId);
+    if (!sequence && at >= 0 && SHAPE_AFTER_ID.test(lines[i].slice(at + nodeId.length))) return i;
+  }
+  return first;
+}
+
+/** 図の要素（ノード・subgraph・参加者）に対応するノードID */
+export function nodeIdOfElement(el: Element, code: string): string | null {
+  if (el.matches("text.actor, .actor")) {
+    const label = el.textContent?.trim() ?? "";
+    for (const [id, name] of sequenceAliases(code)) if (name === label) return id;
+    return label || null;
+  }
+  const id = nodeIdOf(el);
+  return id || null;
+}
+
+/** ノードIDに対応する図の要素 */
+export function findNodeElements(root: Element, code: string, ids: string[]): Element[] {
+  if (ids.length === 0) return [];
+  if (diagramOf(code) === "sequenceDiagram") {
+    const aliases = sequenceAliases(code);
+    const labels = new Set(ids.map(id => aliases.get(id) ?? id));
+    return Array.from(root.querySelectorAll("text.actor")).filter(el => labels.has(el.textContent?.trim() ?? ""));
+  }
+  const wanted = new Set(ids);
+  return Array.from(root.querySelectorAll("g.node, g.cluster")).filter(el => wanted.has(nodeIdOf(el)));
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** flowchart の接続（from → to）を描いた線。Mermaid の版により id（L-A-B-0 / L_A_B_0）かクラス（LS-A LE-B）で判定する */
+export function findEdgeElements(root: Element, from: string, to: string): Element[] {
+  const idRe = new RegExp(`(?:^|[-_])L[-_]${escapeRegExp(from)}[-_]${escapeRegExp(to)}[-_]\\d+$`);
+  return Array.from(root.querySelectorAll("path.flowchart-link, g.edgePaths path")).filter((el) =>
+    (el.classList.contains(`LS-${from}`) && el.classList.contains(`LE-${to}`)) || idRe.test(el.id));
+}
+
+/** エディタのカーソル行が変わったときに通知する拡張 */
+export function cursorLineListener(onCursor: (path: string, getText: () => string, line: number) => void): Extension {
+  return EditorView.updateListener.of((update) => {
+    if (!update.selectionSet) return;
+    const file = update.state.field(editorInfoField, false)?.file;
+    if (!file) return;
+    const state = update.state;
+    const line = state.doc.lineAt(state.selection.main.head).number - 1;
+    onCursor(file.path, () => state.doc.toString(), line);
+  });
+}
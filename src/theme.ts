@@ -0,0 +1,57 @@
+// 拡大表示の背景色と Mermaid テーマの指定
+import { MermaidZoomPluginSettings } from "./types";
+import { renderMermaidOffscreen } from "./export";
+
+type ThemeSettings = Pick<MermaidZoomPluginSettings, "zoomBackground" | "zoomBackgroundColor" | "zoomMermaidTheme" | "zoomThemeVariables">;
+
+/** 拡大表示・コピーに使う背景色（CSS の色文字列） */
+export function zoomBackgroundColor(settings: ThemeSettings): string {
+  switch (settings.zoomBackground) {
+    case "theme":
+      return getComputedStyle(document.body).getPropertyValue("--background-primary").trim() || "#ffffff";
+    case "transparent":
+      return "transparent";
+    case "custom":
+      return settings.zoomBackgroundColor.trim() || "#ffffff";
+    default:
+      return "#ffffff";
+  }
+}
+
+/** themeVariables の JSON を解釈する。空なら null、不正なら例外 */
+export function parseThemeVariables(json: string): Record<string, unknown> | null {
+  if (!json.trim()) return null;
+  const parsed: unknown = JSON.parse(json);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("themeVariables は JSON オブジェクトで指定してください。");
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * 設定のテーマを init ディレクティブとして先頭に付けたコード。指定がなければ null。
+ * ブロック内に init があればそちらが後から適用されるため、書き手の指定が優先される。
+ */
+export function themedMermaidCode(code: string, settings: ThemeSettings): string | null {
+  let variables: Record<string, unknown> | null = null;
+  try {
+    variables = parseThemeVariables(settings.zoomThemeVariables);
+  } catch (e) {
+    console.warn("Mermaid Zoom Plugin: themeVariables を解釈できません:", e);
+  }
+  if (settings.zoomMermaidTheme === "inherit" && !variables) return null;
+  const init: Record<string, unknown> = {};
+  if (settings.zoomMermaidTheme !== "inherit") init.theme = settings.zoomMermaidTheme;
+  if (variables) init.themeVariables = variables;
+  return `%%{init: ${JSON.stringify(init)}}%%\n${code}`;
+}
+
+/** 設定のテーマで描画した図（.mermaid 相当）。Mermaid が読み込まれている必要がある */
+export async function renderThemedDiagram(code: string, settings: ThemeSettings): Promise<HTMLElement> {
+  const rendered = await renderMermaidOffscreen(themedMermaidCode(code, settings) ?? code);
+  try {
+    const diagram = createDiv({ cls: "mermaid" });
+    diagram.appendChild(rendered.svg.cloneNode(true));
+    return diagram;
+  } finally {
+    rendered.dispose();
+  }
+}
@@ -1,22 +1,84 @@
 import { Editor } from "obsidian";
 
 // --- 設定インターフェース ---
+export type LlmProviderId = "gemini" | "openai" | "ollama";
+export type ExportFormat = "svg" | "png" | "pdf";
+export type ZoomBackground = "theme" | "white" | "transparent" | "custom";
+/** inherit は Obsidian が初期化したテーマのまま描画する */
+export type ZoomMermaidTheme = "inherit" | "default" | "dark" | "forest" | "neutral" | "base";
+
 export interface MermaidZoomPluginSettings {
   pngScale: number;
+  llmProvider: LlmProviderId;
   geminiApiKey?: string;
   geminiModel: string;
+  geminiBaseUrl: string;
+  openaiBaseUrl: string;
+  openaiApiKey?: string;
+  openaiModel: string;
+  ollamaBaseUrl: string;
+  ollamaModel: string;
   applyMode: "confirm" | "auto";
   requestTimeoutMs: number;
+  llmRequestsPerMinute: number;
+  llmConcurrency: number;
+  llmMaxRetries: number;
+  fixCandidateCount: number;
   preserveInitDirective: boolean;
+  liveLint: boolean;
+  editorHighlight: boolean;
+  editorAutocomplete: boolean;
+  exportFormat: ExportFormat;
+  exportFileNameTemplate: string;
+  exportInsertEmbed: boolean;
+  exportEmbedFonts: boolean;
+  bulkExportFolder: string;
+  fixReportFolder: string;
+  fixCacheMaxEntries: number;
+  zoomMinimap: boolean;
+  zoomOpenMode: "overlay" | "tab";
+  zoomBackground: ZoomBackground;
+  /** zoomBackground が custom のときの背景色 */
+  zoomBackgroundColor: string;
+  zoomMermaidTheme: ZoomMermaidTheme;
+  /** Mermaid の themeVariables（JSON） */
+  zoomThemeVariables: string;
 }
 
 export const DEFAULT_SETTINGS: MermaidZoomPluginSettings = {
   pngScale: 10,
+  llmProvider: "gemini",
   geminiApiKey: "",
   geminiModel: "gemini-2.5-flash-lite",
+  geminiBaseUrl: "https://generativelanguage.googleapis.com",
+  openaiBaseUrl: "https://api.openai.com/v1",
+  openaiApiKey: "",
+  openaiModel: "gpt-4o-mini",
+  ollamaBaseUrl: "http://localhost:11434",
+  ollamaModel: "llama3.1",
   applyMode: "confirm",
   requestTimeoutMs: 30000,
+  llmRequestsPerMinute: 15,
+  llmConcurrency: 2,
+  llmMaxRetries: 3,
+  fixCandidateCount: 1,
   preserveInitDirective: true,
+  liveLint: true,
+  editorHighlight: true,
+  editorAutocomplete: true,
+  exportFormat: "svg",
+  exportFileNameTemplate: "{{note}}-mermaid-{{index}}-{{date}}",
+  exportInsertEmbed: false,
+  exportEmbedFonts: false,
+  bulkExportFolder: "mermaid-exports",
+  fixReportFolder: "mermaid-reports",
+  fixCacheMaxEntries: 200,
+  zoomMinimap: true,
+  zoomOpenMode: "overlay",
+  zoomBackground: "white",
+  zoomBackgroundColor: "#ffffff",
+  zoomMermaidTheme: "inherit",
+  zoomThemeVariables: "",
 };
 
 // === Mermaid ブロック情報
@@ -38,5 +100,82 @@ export type BuildOpts = {
   useSentinel?: boolean;
 };
 
-export type OffsetRangeReplacement = { start: number; end: number; text: string };
+// expected: 置換前にその範囲にあるはずのテキスト（指定時は一致しなければ適用しない）
+export type OffsetRangeReplacement = { start: number; end: number; text: string; expected?: string; label?: string };
+
+// 一括修正で変更したファイルの記録（取り消し用）
+export type BatchFileSnapshot = { path: string; before: string; after: string };
+export type BatchSnapshot = { id: string; createdAt: string; files: BatchFileSnapshot[] };
+
+
+// 検証結果（エラーパネル表示用）。行番号は 0 始まり。
+export type ValidationIssue = {
+  path: string;
+  blockIndex: number;
+  startLine: number;
+  endLine: number;
+  message: string;
+};
 
+// エラーパネルの対象範囲
+export type ValidationScope = { kind: "file"; path: string } | { kind: "vault" };
+
+// 一括エクスポートのマニフェスト。キーは `${sourcePath}#${blockIndex}`
+export type BulkExportEntry = {
+  source: string;
+  blockIndex: number;
+  output: string;
+  format: ExportFormat;
+  hash: string;
+  exportedAt: string;
+};
+
+export type BulkExportManifest = {
+  version: 1;
+  entries: Record<string, BulkExportEntry>;
+};
+
+// ドライランレポートの1項目（startOffset 等は適用時に再特定するため保持しない）
+export type FixReportItem = {
+  id: string;
+  path: string;
+  blockIndex: number;
+  error: string;
+  original: string;
+  proposed: string;
+};
+
+// LLM 修正の履歴（兼キャッシュ）の1件。key は gemini.ts の fixCacheKey
+export type FixHistoryEntry = {
+  id: string;
+  key: string;
+  createdAt: string;
+  /** キャッシュから使われた最終日時（上限を超えたら古いものから消す） */
+  lastUsedAt: string;
+  path: string;
+  blockIndex: number;
+  provider: string;
+  model: string;
+  diagramType: string | null;
+  error: string;
+  original: string;
+  fixed: string;
+  attempts: number;
+};
+
+// 全ファイル系ジョブの対象絞り込み（未指定の条件は無視）
+export type JobScope = {
+  folder?: string;
+  tag?: string;
+  modifiedSince?: number;
+};
+
+export type JobSummary = {
+  name: string;
+  total: number;
+  done: number;
+  errors: number;
+  cancelled: boolean;
+  elapsedMs: number;
+  details: string[];
+};
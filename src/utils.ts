@@ -7,6 +7,11 @@ export function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
+export function isTransparentColor(color: string): boolean {
+  const c = color.replace(/\s+/g, "").toLowerCase();
+  return c === "transparent" || c === "rgba(0,0,0,0)";
+}
+
 // コードフェンスを除去する関数
 export function stripCodeFences(text: string): string {
   return text.replace(/^```\w*\n?/, '').replace(/\n?```$/, '').trim();
@@ -31,6 +36,16 @@ export function withTimeout<T>(promise: Promise<T>, ms: number, controller?: Abo
   return Promise.race([promise.finally(() => clearTimeout(to!)), timeout]);
 }
 
+// 内容比較用の軽量ハッシュ（FNV-1a 32bit, 16進8桁）
+export function hashString(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h.toString(16).padStart(8, "0");
+}
+
 export function stableJson(obj: any) {
   try { return JSON.stringify(obj); } catch { return String(obj); }
 }
@@ -135,61 +150,236 @@ export function extractMermaidBlocks(text: string) {
   return blocks;
 }
 
+/** Mermaid のエラーメッセージから行番号（1 始まり）を取り出す。なければ null */
+export function parseErrorLine(message: string): number | null {
+  const m = message.match(/\bon line (\d+)/i) ?? message.match(/\bline[: ]+(\d+)/i);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** ブロックのコード部分が占める行範囲（0 始まり、両端含む） */
+export function blockLineRange(text: string, block: { startOffset: number; endOffset: number }): { startLine: number; endLine: number } {
+  const startLine = offsetToPosFallback(text, block.startOffset).line;
+  const endLine = offsetToPosFallback(text, Math.max(block.startOffset, block.endOffset - 1)).line;
+  return { startLine, endLine };
+}
+
+/** 行内の差分。changed が true の部分だけを強調する */
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
 /** 差分を計算して色分け表示用のデータを生成 */
 export interface DiffLine {
   type: 'unchanged' | 'added' | 'removed';
   content: string;
+  /** 表示用の行番号（removed は元の行、それ以外は修正後の行） */
   lineNumber?: number;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  /** 削除行と追加行が対になる変更行のみ、文字単位の差分 */
+  segments?: DiffSegment[];
+  /** 変更行が属する変更のまとまり（ハンク）の番号。0 から順に振る */
+  hunk?: number;
+}
+
+/** 変更のない行が続く部分を畳んだもの */
+export interface DiffFold {
+  type: 'fold';
+  lines: DiffLine[];
+}
+
+type EditOp = { type: 'equal' | 'insert' | 'delete'; a: number; b: number };
+
+/** Myers の O(ND) 差分。a → b の編集列を先頭から順に返す */
+function myersDiff<T>(a: T[], b: T[]): EditOp[] {
+  // 共通の先頭・末尾は探索から外す（修正前後でほとんど同じことが多い）
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+  const n = a.length - head - tail;
+  const m = b.length - head - tail;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[head + x] === b[head + y]) { x++; y++; }
+      v[k + offset] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // 探索の記録を終点から遡って編集列を組み立てる
+  const middle: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[k - 1 + offset] < prev[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = prev[prevK + offset];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { x--; y--; middle.push({ type: 'equal', a: head + x, b: head + y }); }
+    if (prevK === k + 1) middle.push({ type: 'insert', a: head + x, b: head + prevY });
+    else middle.push({ type: 'delete', a: head + prevX, b: head + y });
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) { x--; y--; middle.push({ type: 'equal', a: head + x, b: head + y }); }
+  middle.reverse();
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < head; i++) ops.push({ type: 'equal', a: i, b: i });
+  ops.push(...middle);
+  for (let i = 0; i < tail; i++) ops.push({ type: 'equal', a: a.length - tail + i, b: b.length - tail + i });
+  return ops;
+}
+
+/** 連続する同じ種類の文字をまとめ、変更に挟まれた1文字だけの一致は変更側に寄せる（読みやすさのため） */
+function toSegments(chars: { ch: string; changed: boolean }[]): DiffSegment[] {
+  const marked = chars.map((c, i) => {
+    if (c.changed || /\s/.test(c.ch)) return c.changed;
+    return !!chars[i - 1]?.changed && !!chars[i + 1]?.changed;
+  });
+  const segments: DiffSegment[] = [];
+  chars.forEach((c, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === marked[i]) last.text += c.ch;
+    else segments.push({ text: c.ch, changed: marked[i] });
+  });
+  return segments;
+}
+
+/** 変更前後の1行を文字単位で比べる。共通部分が少なすぎる行は行全体の置き換えとして null を返す */
+function diffChars(before: string, after: string): { removed: DiffSegment[]; added: DiffSegment[] } | null {
+  const a = Array.from(before);
+  const b = Array.from(after);
+  const ops = myersDiff(a, b);
+  const common = ops.filter(op => op.type === 'equal').length;
+  if (common * 2 < Math.max(a.length, b.length)) return null;
+  const removed: { ch: string; changed: boolean }[] = [];
+  const added: { ch: string; changed: boolean }[] = [];
+  for (const op of ops) {
+    if (op.type !== 'insert') removed.push({ ch: a[op.a], changed: op.type === 'delete' });
+    if (op.type !== 'delete') added.push({ ch: b[op.b], changed: op.type === 'insert' });
+  }
+  return { removed: toSegments(removed), added: toSegments(added) };
+}
+
+/** 修正の大きさ（挿入・削除した文字数）。行単位の差分で置き換えになった行は、対応する行どうしを文字単位で比べる */
+export function editDistance(original: string, modified: string): number {
+  const a = original.split('\n');
+  const b = modified.split('\n');
+  let distance = 0;
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      distance += myersDiff(Array.from(removed[i]), Array.from(added[i])).filter(op => op.type !== 'equal').length;
+    }
+    // 対応する行のない追加・削除は行全体（改行を含む）。対にした行と同じくコードポイント単位で数える
+    [...removed.slice(paired), ...added.slice(paired)].forEach(line => { distance += Array.from(line).length + 1; });
+    removed = [];
+    added = [];
+  };
+  for (const op of myersDiff(a, b)) {
+    if (op.type === 'delete') removed.push(a[op.a]);
+    else if (op.type === 'insert') added.push(b[op.b]);
+    else flush();
+  }
+  flush();
+  return distance;
 }
 
 export function calculateDiff(original: string, modified: string): DiffLine[] {
   const originalLines = original.split('\n');
   const modifiedLines = modified.split('\n');
   const result: DiffLine[] = [];
-  
-  // 簡単な行単位の差分計算
-  const maxLines = Math.max(originalLines.length, modifiedLines.length);
-  
-  for (let i = 0; i < maxLines; i++) {
-    const originalLine = originalLines[i] || '';
-    const modifiedLine = modifiedLines[i] || '';
-    
-    if (originalLine === modifiedLine) {
-      // 変更なし
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  let hunk = 0;
+
+  // 削除と追加が続いた塊を「削除行→追加行」の順に出し、前から順に対にして行内差分を付ける
+  const flush = () => {
+    if (removed.length + added.length === 0) return;
+    removed.concat(added).forEach(line => { line.hunk = hunk; });
+    hunk++;
+    for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+      const chars = diffChars(removed[i].content, added[i].content);
+      if (!chars) continue;
+      removed[i].segments = chars.removed;
+      added[i].segments = chars.added;
+    }
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const op of myersDiff(originalLines, modifiedLines)) {
+    if (op.type === 'delete') {
+      removed.push({ type: 'removed', content: originalLines[op.a], lineNumber: op.a + 1, oldLineNumber: op.a + 1 });
+    } else if (op.type === 'insert') {
+      added.push({ type: 'added', content: modifiedLines[op.b], lineNumber: op.b + 1, newLineNumber: op.b + 1 });
+    } else {
+      flush();
       result.push({
         type: 'unchanged',
-        content: originalLine,
-        lineNumber: i + 1
-      });
-    } else if (originalLine && !modifiedLine) {
-      // 削除された行
-      result.push({
-        type: 'removed',
-        content: originalLine,
-        lineNumber: i + 1
-      });
-    } else if (!originalLine && modifiedLine) {
-      // 追加された行
-      result.push({
-        type: 'added',
-        content: modifiedLine,
-        lineNumber: i + 1
+        content: originalLines[op.a],
+        lineNumber: op.b + 1,
+        oldLineNumber: op.a + 1,
+        newLineNumber: op.b + 1,
       });
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/** 採用しないハンクを元に戻したコードを組み立てる */
+export function applyDiffHunks(lines: DiffLine[], rejected: ReadonlySet<number>): string {
+  return lines
+    .filter(line => {
+      if (line.type === 'unchanged') return true;
+      const isRejected = line.hunk !== undefined && rejected.has(line.hunk);
+      return line.type === 'added' ? !isRejected : isRejected;
+    })
+    .map(line => line.content)
+    .join('\n');
+}
+
+/** 変更箇所から context 行より離れた変更なしの行を畳む */
+export function foldUnchangedLines(lines: DiffLine[], context = 3): (DiffLine | DiffFold)[] {
+  const result: (DiffLine | DiffFold)[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'unchanged') { result.push(lines[i++]); continue; }
+    let j = i;
+    while (j < lines.length && lines[j].type === 'unchanged') j++;
+    // 先頭・末尾の塊は片側だけ、途中の塊は両側に文脈を残す
+    const keepBefore = i === 0 ? 0 : context;
+    const keepAfter = j === lines.length ? 0 : context;
+    // 1行だけ畳んでも表示は短くならない
+    if (j - i - keepBefore - keepAfter > 1) {
+      result.push(...lines.slice(i, i + keepBefore));
+      result.push({ type: 'fold', lines: lines.slice(i + keepBefore, j - keepAfter) });
+      result.push(...lines.slice(j - keepAfter, j));
     } else {
-      // 変更された行（削除 + 追加として表示）
-      result.push({
-        type: 'removed',
-        content: originalLine,
-        lineNumber: i + 1
-      });
-      result.push({
-        type: 'added',
-        content: modifiedLine,
-        lineNumber: i + 1
-      });
+      result.push(...lines.slice(i, j));
     }
+    i = j;
   }
-  
   return result;
 }
 
@@ -0,0 +1,192 @@
+// 図をタブ（ItemView）で拡大表示する。元ブロックの編集に追従して再描画する
+import { ItemView, WorkspaceLeaf, TFile, ViewStateResult, debounce, loadMermaid } from "obsidian";
+import { MermaidBlock, MermaidZoomPluginSettings } from "./types";
+import { extractMermaidBlocks } from "./utils";
+import { renderThemedDiagram } from "./theme";
+import { describeMermaidSource } from "./a11y";
+import { ZoomViewer } from "./zoomViewer";
+import { findNodeElements } from "./sourceLink";
+
+export const VIEW_TYPE_MERMAID_ZOOM = "mermaid-zoom-view";
+
+export type MermaidZoomViewState = {
+  file: string;
+  blockIndex: number;
+  zoom?: number;
+  panX?: number;
+  panY?: number;
+};
+
+/** plugin 側で実装する依存 */
+export type ZoomViewHost = {
+  settings: MermaidZoomPluginSettings;
+  saveSettings(): Promise<void>;
+  /** ツールバーのコピー・保存ボタン。getDiagram は表示中の図（.mermaid 相当）を返す */
+  createViewerActions(getDiagram: () => HTMLElement, locate: () => Promise<{ file: TFile | null; block: MermaidBlock | null }>): HTMLElement[];
+  /** ノードの定義行へエディタのカーソルを移動する */
+  revealNodeSource(file: TFile, block: MermaidBlock, el: Element): Promise<void>;
+};
+
+export class MermaidZoomView extends ItemView {
+  private filePath = "";
+  private blockIndex = 0;
+  private viewer: ZoomViewer | null = null;
+  private lastCode: string | null = null;
+  private block: MermaidBlock | null = null;
+  /** エディタのカーソル行から強調中のノードID（再描画後も維持する） */
+  private sourceIds: string[] = [];
+  private restoreState: { zoom: number; panX: number; panY: number } | null = null;
+  private statusEl: HTMLElement;
+  private bodyEl: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, private host: ZoomViewHost) {
+    super(leaf);
+  }
+
+  getViewType(): string { return VIEW_TYPE_MERMAID_ZOOM; }
+  getIcon(): string { return "zoom-in"; }
+  getDisplayText(): string {
+    if (!this.filePath) return "Mermaid 図";
+    const name = this.filePath.split("/").pop()?.replace(/\.md$/, "") ?? this.filePath;
+    return `${name} #${this.blockIndex + 1}`;
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.empty();
+    this.contentEl.addClass("mermaid-zoom-view");
+    this.statusEl = this.contentEl.createDiv({ cls: "mermaid-zoom-view-status" });
+    this.bodyEl = this.contentEl.createDiv({ cls: "mermaid-zoom-view-body" });
+
+    this.registerDomEvent(this.contentEl, "keydown", (e) => { this.viewer?.handleKeyDown(e); });
+
+    // 保存前の編集にも追従する
+    this.registerEvent(this.app.workspace.on("editor-change", (editor, info) => {
+      if (info.file?.path === this.filePath) this.scheduleRender(editor.getValue());
+    }));
+    this.registerEvent(this.app.vault.on("modify", (f) => {
+      if (f instanceof TFile && f.path === this.filePath) this.scheduleRender(null);
+    }));
+    this.registerEvent(this.app.vault.on("rename", (f, oldPath) => {
+      if (oldPath !== this.filePath) return;
+      this.filePath = f.path;
+      (this.leaf as any).updateHeader?.();
+      this.app.workspace.requestSaveLayout();
+    }));
+    this.registerEvent(this.app.vault.on("delete", (f) => {
+      if (f.path === this.filePath) this.setStatus("元のノートが削除されました。");
+    }));
+  }
+
+  async onClose(): Promise<void> {
+    this.scheduleRender.cancel();
+    this.viewer?.destroy();
+    this.viewer = null;
+    this.contentEl.empty();
+  }
+
+  /** エディタのカーソルが置かれたブロック・行のノードを強調する。別のブロックなら解除する */
+  highlightFromSource(path: string, blockIndex: number, ids: string[]): void {
+    const next = path === this.filePath && blockIndex === this.blockIndex ? ids : [];
+    if (next.length === 0 && this.sourceIds.length === 0) return;
+    this.sourceIds = next;
+    this.applySourceHighlight();
+  }
+
+  private applySourceHighlight(): void {
+    if (!this.viewer || this.lastCode === null) return;
+    this.viewer.highlightElements(findNodeElements(this.viewer.diagramElement, this.lastCode, this.sourceIds));
+  }
+
+  /** 背景・テーマの設定変更を反映する */
+  async refreshTheme(): Promise<void> {
+    this.viewer?.updateBackground();
+    this.lastCode = null;
+    await this.render(null);
+  }
+
+  onResize(): void {
+    this.viewer?.layout();
+  }
+
+  getState(): Record<string, unknown> {
+    const state: MermaidZoomViewState = { file: this.filePath, blockIndex: this.blockIndex };
+    if (this.viewer) Object.assign(state, this.viewer.state);
+    return state;
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const s = state as Partial<MermaidZoomViewState> | null;
+    if (s?.file) {
+      const changed = s.file !== this.filePath || s.blockIndex !== this.blockIndex;
+      this.filePath = s.file;
+      this.blockIndex = s.blockIndex ?? 0;
+      if (typeof s.zoom === "number" && typeof s.panX === "number" && typeof s.panY === "number") {
+        this.restoreState = { zoom: s.zoom, panX: s.panX, panY: s.panY };
+      }
+      if (changed) {
+        this.lastCode = null;
+        (this.leaf as any).updateHeader?.();
+        await this.render(null);
+      }
+    }
+    await super.setState(state, result);
+  }
+
+  // 入力中は描画しない
+  private scheduleRender = debounce((text: string | null) => { void this.render(text); }, 500, true);
+
+  /** text が null ならファイルから読む */
+  private async render(text: string | null): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(this.filePath);
+    if (!(file instanceof TFile)) { this.setStatus("元のノートが見つかりません。"); return; }
+    const content = text ?? await this.app.vault.cachedRead(file);
+    const blocks = extractMermaidBlocks(content);
+    const block = blocks[this.blockIndex];
+    if (!block) { this.setStatus(`Mermaidブロック #${this.blockIndex + 1} が見つかりません。`); return; }
+    this.block = block;
+    if (block.code === this.lastCode) return;
+    this.lastCode = block.code;
+
+    try {
+      // 起動直後にタブが復元された場合は Mermaid がまだ読み込まれていない
+      await loadMermaid();
+      this.showDiagram(await renderThemedDiagram(block.code, this.host.settings));
+      this.applySourceHighlight();
+      this.viewer?.setDescription(describeMermaidSource(block.code));
+      this.setStatus(null);
+    } catch (e: any) {
+      // 編集途中の構文エラーでは直前の図を残す
+      const msg = String(e?.message ?? e).split("\n")[0];
+      this.setStatus(this.viewer ? `構文エラーのため直前の図を表示しています: ${msg}` : `描画に失敗しました: ${msg}`);
+    }
+  }
+
+  private showDiagram(diagram: HTMLElement): void {
+    if (this.viewer) {
+      this.viewer.setDiagram(diagram);
+      return;
+    }
+    this.viewer = new ZoomViewer(this.bodyEl, diagram, {
+      settings: this.host.settings,
+      saveSettings: () => this.host.saveSettings(),
+      actions: this.host.createViewerActions(
+        () => this.viewer?.diagramElement ?? diagram,
+        async () => ({ file: this.app.vault.getAbstractFileByPath(this.filePath) as TFile | null, block: this.block })),
+      onLinkClick: (target, newLeaf) => { void this.app.workspace.openLinkText(target, this.filePath, newLeaf); },
+      onNodeActivate: (el) => {
+        const file = this.app.vault.getAbstractFileByPath(this.filePath);
+        if (file instanceof TFile && this.block) void this.host.revealNodeSource(file, this.block, el);
+      },
+    });
+    if (this.restoreState) {
+      this.viewer.setState(this.restoreState);
+      this.restoreState = null;
+    }
+    requestAnimationFrame(() => this.viewer?.layout());
+  }
+
+  private setStatus(message: string | null): void {
+    this.statusEl.setText(message ?? "");
+    this.statusEl.toggleClass("is-hidden", !message);
+  }
+}
@@ -0,0 +1,391 @@
+// 拡大表示の本体（ツールバー・パン/ズーム・ミニマップ・検索）。オーバーレイとタブ表示で共用する
+import { MermaidZoomPluginSettings } from "./types";
+import { clamp } from "./utils";
+import { attachPanZoomGestures, attachRubberBand, zoomAround, fitState, zoomToRect, FitMode, PanZoomState, Size } from "./gestures";
+import { Minimap } from "./minimap";
+import { NodeSearch, revealRect } from "./nodeSearch";
+import { DiagramDescription } from "./a11y";
+import { zoomBackgroundColor } from "./theme";
+
+export type ZoomViewerOptions = {
+  settings: MermaidZoomPluginSettings;
+  saveSettings: () => Promise<void>;
+  /** ツールバー末尾に並べるボタン（コピー・保存・閉じる等） */
+  actions: HTMLElement[];
+  onLinkClick: (href: string, newLeaf: boolean) => void;
+  /** Alt+クリックされたノード（g.node / g.cluster / text.actor） */
+  onNodeActivate?: (el: Element) => void;
+};
+
+const SOURCE_HIGHLIGHT_CLASS = "mermaid-source-highlight";
+
+export function createElement<K extends keyof HTMLElementTagNameMap>(tagName: K, className: string): HTMLElementTagNameMap[K] { const el = document.createElement(tagName); el.className = className; return el; }
+
+export function createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = createElement("button", "");
+  button.type = "button";
+  button.textContent = text;
+  button.title = title;
+  button.setAttribute("aria-label", title);
+  button.addEventListener("click", (e) => { e.stopPropagation(); onClick(); });
+  return button;
+}
+
+let descriptionSeq = 0;
+
+export class ZoomViewer {
+  readonly toolbar: HTMLElement;
+  readonly content: HTMLElement;
+  readonly description: HTMLElement;
+  private clone: HTMLElement;
+  private zoomLevel = 1;
+  private panX = 0;
+  private panY = 0;
+  private fitted = false;
+  private selecting = false;
+  private minimap: Minimap;
+  private nodeSearch: NodeSearch;
+  private zoomDisplay: HTMLElement;
+  private searchInput: HTMLInputElement;
+  private searchCount: HTMLElement;
+  private selectButton: HTMLButtonElement;
+  private minimapButton: HTMLButtonElement;
+  private highlighted: Element[] = [];
+  private detachers: (() => void)[] = [];
+
+  constructor(parent: HTMLElement, diagram: HTMLElement, private opts: ZoomViewerOptions) {
+    this.content = createElement("div", "mermaid-zoom-content");
+    this.description = createElement("div", "mermaid-zoom-sr-only");
+    this.description.id = `mermaid-zoom-desc-${++descriptionSeq}`;
+    this.content.tabIndex = 0;
+    this.content.setAttribute("role", "group");
+    this.content.setAttribute("aria-label", "図（矢印キーで移動、+/- で拡大縮小、0 で全体表示、w/h で幅・高さに合わせる、1 で100%、m でミニマップ切替、Shift+ドラッグで範囲ズーム、Alt+クリックでソースへ移動）");
+    // 配置と原点を左上に固定し、ズレを防止
+    this.content.style.position = "relative";
+    this.updateBackground();
+
+    this.toolbar = this.buildToolbar();
+    this.clone = this.prepareClone(diagram);
+    this.content.appendChild(this.clone);
+    parent.append(this.toolbar, this.content, this.description);
+
+    this.minimap = this.createMinimap();
+    this.nodeSearch = this.createNodeSearch();
+    this.registerEvents();
+  }
+
+  get state(): PanZoomState {
+    return { zoom: this.zoomLevel, panX: this.panX, panY: this.panY };
+  }
+
+  /** 表示中の図（.mermaid 相当の複製）。コピー・保存に使う */
+  get diagramElement(): HTMLElement {
+    return this.clone;
+  }
+
+  setState(state: PanZoomState): void {
+    this.zoomLevel = state.zoom;
+    this.panX = state.panX;
+    this.panY = state.panY;
+    this.fitted = true;
+    this.updateTransform();
+  }
+
+  /** 表示領域のサイズが決まってから呼ぶ。未調整なら全体表示にする */
+  layout(): void {
+    const view = this.viewSize();
+    if (view.width === 0 || view.height === 0) return;
+    if (!this.fitted) this.fitToView();
+    this.minimap.layout();
+    this.updateTransform();
+  }
+
+  fitToView(mode: FitMode = "screen"): void {
+    this.setState(this.computeFit(mode));
+  }
+
+  /** 設定の背景色を反映する */
+  updateBackground(): void {
+    this.content.style.setProperty("--mermaid-zoom-background", zoomBackgroundColor(this.opts.settings));
+  }
+
+  /** 図を差し替える。パン・ズーム状態と検索語は保持する */
+  setDiagram(diagram: HTMLElement): void {
+    const next = this.prepareClone(diagram);
+    this.clone.replaceWith(next);
+    this.clone = next;
+    this.minimap.destroy();
+    this.minimap = this.createMinimap();
+    this.nodeSearch.clear();
+    this.nodeSearch = this.createNodeSearch();
+    this.highlighted = [];
+    if (this.searchInput.value.trim()) this.nodeSearch.search(this.searchInput.value);
+    this.renderSearchCount();
+    this.layout();
+  }
+
+  /** スクリーンリーダー向けの代替テキストを描画する */
+  setDescription(desc: DiagramDescription): void {
+    const el = this.description;
+    el.empty();
+    el.createEl("p", { text: desc.summary });
+    if (desc.items.length === 0) return;
+    const list = el.createEl("ul");
+    desc.items.forEach(item => list.createEl("li", { text: item }));
+  }
+
+  /** ソース側で選ばれたノードを強調する。表示範囲外なら先頭の要素が見える位置へ移動する */
+  highlightElements(els: Element[]): void {
+    this.highlighted.forEach(el => el.classList.remove(SOURCE_HIGHLIGHT_CLASS));
+    this.highlighted = els;
+    els.forEach(el => el.classList.add(SOURCE_HIGHLIGHT_CLASS));
+    if (els.length === 0) return;
+    const view = this.content.getBoundingClientRect();
+    const r = els[0].getBoundingClientRect();
+    const visible = r.left >= view.left && r.right <= view.right && r.top >= view.top && r.bottom <= view.bottom;
+    if (!visible) this.revealElement(els[0]);
+  }
+
+  focus(): void {
+    this.content.focus();
+  }
+
+  /**
+   * キー操作を処理する。処理した（または検索欄への入力だった）場合は true。
+   * Esc（検索語が空のとき）と Tab は呼び出し側に任せる。
+   */
+  handleKeyDown(e: KeyboardEvent): boolean {
+    const input = this.searchInput;
+    if (e.target === input) {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        if (e.shiftKey) this.nodeSearch.previous(); else this.nodeSearch.next();
+        this.renderSearchCount();
+        return true;
+      }
+      // 入力中の Esc はまず検索を解除し、空なら呼び出し側へ（閉じる）
+      if (e.key === "Escape" && input.value) {
+        e.preventDefault();
+        input.value = "";
+        this.nodeSearch.clear();
+        this.renderSearchCount();
+        return true;
+      }
+      if (e.key !== "Escape" && e.key !== "Tab" && e.key !== "F3") return true;
+    }
+    if (e.key === "Escape" || e.key === "Tab") return false;
+    if (e.key === "F3" || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "g")) {
+      e.preventDefault();
+      if (e.shiftKey) this.nodeSearch.previous(); else this.nodeSearch.next();
+      this.renderSearchCount();
+      return true;
+    }
+    if (((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "f") || e.key === "/") {
+      e.preventDefault();
+      input.focus();
+      input.select();
+      return true;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return false;
+    const step = e.shiftKey ? 200 : 50;
+    switch (e.key) {
+      case "ArrowLeft": this.panX += step; break;
+      case "ArrowRight": this.panX -= step; break;
+      case "ArrowUp": this.panY += step; break;
+      case "ArrowDown": this.panY -= step; break;
+      case "+": case "=": this.zoomAt(this.zoomLevel * 1.2); break;
+      case "-": case "_": this.zoomAt(this.zoomLevel / 1.2); break;
+      case "0": this.fitToView(); break;
+      case "w": this.fitToView("width"); break;
+      case "h": this.fitToView("height"); break;
+      case "m": void this.toggleMinimap(); break;
+      case "1": this.zoomAt(1); break;
+      default: return false;
+    }
+    e.preventDefault();
+    this.updateTransform();
+    return true;
+  }
+
+  destroy(): void {
+    this.detachers.forEach(fn => fn());
+    this.detachers = [];
+    this.nodeSearch.clear();
+  }
+
+  private prepareClone(diagram: HTMLElement): HTMLElement {
+    const clone = diagram.cloneNode(true) as HTMLElement;
+    clone.className = "mermaid-zoom-clone";
+    const themeClass = document.body.classList.contains("theme-dark") ? "theme-dark" : "theme-light";
+    clone.classList.add(themeClass);
+    clone.querySelector("svg")?.classList.add(themeClass);
+    Object.assign(clone.style, {
+      position: "absolute",
+      top: "0",
+      left: "0",
+      transformOrigin: "0 0",
+      transform: `translate(${this.panX}px, ${this.panY}px) scale(${this.zoomLevel})`,
+    } as Partial<CSSStyleDeclaration>);
+    return clone;
+  }
+
+  private buildToolbar(): HTMLElement {
+    const toolbar = createElement("div", "mermaid-zoom-toolbar");
+    toolbar.setAttribute("role", "toolbar");
+    toolbar.setAttribute("aria-label", "拡大表示の操作");
+
+    const searchBox = createElement("div", "mermaid-zoom-search");
+    this.searchInput = createElement("input", "mermaid-zoom-search-input");
+    this.searchInput.type = "search";
+    this.searchInput.placeholder = "ノードを検索";
+    this.searchInput.setAttribute("aria-label", "ノード・エッジラベル・参加者を検索");
+    this.searchCount = createElement("span", "mermaid-zoom-search-count");
+    this.searchCount.setAttribute("role", "status");
+    this.searchCount.setAttribute("aria-live", "polite");
+    const prevMatchButton = createButton("↑", "前の一致", () => { this.nodeSearch.previous(); this.renderSearchCount(); });
+    const nextMatchButton = createButton("↓", "次の一致", () => { this.nodeSearch.next(); this.renderSearchCount(); });
+    searchBox.append(this.searchInput, this.searchCount, prevMatchButton, nextMatchButton);
+    this.searchInput.addEventListener("input", () => {
+      this.nodeSearch.search(this.searchInput.value);
+      this.renderSearchCount();
+    });
+
+    // ＋/－ボタンは従来どおり倍率を±0.2し、位置を左上に戻す
+    const setZoom = (zoom: number, panX = 0, panY = 0) => this.setState({ zoom, panX, panY });
+    const zoomOutButton = createButton("－", "縮小", () => setZoom(clamp(this.zoomLevel - 0.2, 0.1, 10)));
+    const zoomInButton = createButton("＋", "拡大", () => setZoom(clamp(this.zoomLevel + 0.2, 0.1, 10)));
+    const resetZoomButton = createButton("1:1", "リセット", () => setZoom(1.0, 0, 0));
+    this.zoomDisplay = createElement("span", "zoom-display");
+    this.zoomDisplay.textContent = "100%";
+    this.zoomDisplay.setAttribute("role", "status");
+    this.zoomDisplay.setAttribute("aria-live", "polite");
+
+    const fitWidthButton = createButton("⇔", "幅に合わせる", () => this.fitToView("width"));
+    const fitHeightButton = createButton("⇕", "高さに合わせる", () => this.fitToView("height"));
+    const fitScreenButton = createButton("⛶", "画面に合わせる", () => this.fitToView());
+    this.selectButton = createButton("⬚", "範囲を選択してズーム", () => this.setSelecting(!this.selecting));
+    this.minimapButton = createButton("▣", "ミニマップの表示切替", () => void this.toggleMinimap());
+    this.selectButton.setAttribute("aria-pressed", "false");
+    this.minimapButton.setAttribute("aria-pressed", String(this.opts.settings.zoomMinimap));
+
+    toolbar.append(searchBox, ...this.opts.actions, zoomOutButton, this.zoomDisplay, zoomInButton, resetZoomButton,
+      fitWidthButton, fitHeightButton, fitScreenButton, this.selectButton, this.minimapButton);
+    return toolbar;
+  }
+
+  private registerEvents(): void {
+    this.content.addEventListener("click", (e) => {
+      if (e.altKey && this.opts.onNodeActivate) {
+        const node = (e.target as Element)?.closest("g.node, g.cluster, text.actor");
+        if (node) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.opts.onNodeActivate(node);
+          return;
+        }
+      }
+      const link = (e.target as HTMLElement)?.closest("a.internal-link, .internal-link, a[data-href], [data-href]");
+      if (!link) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const getHref = (el: Element): string | null => el.getAttribute("data-href") || el.getAttribute("href") || (el as any).href?.baseVal || el.getAttribute("xlink:href");
+      const target = getHref(link);
+      if (!target) return;
+      this.opts.onLinkClick(target, e.ctrlKey || e.metaKey);
+    });
+
+    // 範囲ズーム: ボタンで選択モードにするか、Shift+ドラッグ
+    this.detachers.push(attachRubberBand(this.content,
+      (e) => (this.selecting || e.shiftKey) && !(e.target as HTMLElement)?.closest(".mermaid-zoom-minimap"),
+      (rect) => {
+        this.setState(zoomToRect(this.state, this.viewSize(), rect));
+        this.setSelecting(false);
+      }));
+
+    this.detachers.push(attachPanZoomGestures(this.content, {
+      get: () => this.state,
+      set: (state) => this.setState(state),
+      fit: () => this.computeFit(),
+    }));
+  }
+
+  private updateTransform(): void {
+    this.clone.style.transform = `translate(${this.panX}px, ${this.panY}px) scale(${this.zoomLevel})`;
+    this.zoomDisplay.textContent = `${Math.round(this.zoomLevel * 100)}%`;
+    this.minimap.update();
+  }
+
+  // 表示領域の中心を基準にズーム（キーボード操作用）
+  private zoomAt(next: number): void {
+    const view = this.viewSize();
+    const s = zoomAround(this.state, next, view.width / 2, view.height / 2);
+    this.zoomLevel = s.zoom;
+    this.panX = s.panX;
+    this.panY = s.panY;
+  }
+
+  private viewSize(): Size {
+    const rect = this.content.getBoundingClientRect();
+    return { width: rect.width, height: rect.height };
+  }
+
+  // offsetWidth/Height は transform の影響を受けない（アニメーション中でも正しい）
+  private diagramSize(): Size {
+    return { width: this.clone.offsetWidth || 1, height: this.clone.offsetHeight || 1 };
+  }
+
+  // 中央寄せして初期表示を安定させる
+  private computeFit(mode: FitMode = "screen"): PanZoomState {
+    return fitState(this.viewSize(), this.diagramSize(), mode);
+  }
+
+  private createMinimap(): Minimap {
+    const minimap = new Minimap(this.content, this.clone, {
+      get: () => this.state,
+      set: (state) => this.setState(state),
+      viewSize: () => this.viewSize(),
+      diagramSize: () => this.diagramSize(),
+    });
+    minimap.setVisible(this.opts.settings.zoomMinimap);
+    return minimap;
+  }
+
+  private async toggleMinimap(): Promise<void> {
+    const settings = this.opts.settings;
+    settings.zoomMinimap = !settings.zoomMinimap;
+    this.minimap.setVisible(settings.zoomMinimap);
+    this.minimapButton.setAttribute("aria-pressed", String(settings.zoomMinimap));
+    await this.opts.saveSettings();
+  }
+
+  private createNodeSearch(): NodeSearch {
+    return new NodeSearch(this.clone, (el) => this.revealElement(el));
+  }
+
+  private revealElement(el: Element): void {
+    // トランジション中でも正しく求められるよう、描画中の倍率で図の座標に戻してから現在の状態で換算する
+    const cloneRect = this.clone.getBoundingClientRect();
+    const rendered = cloneRect.width / (this.clone.offsetWidth || 1) || 1;
+    const r = el.getBoundingClientRect();
+    const rect = {
+      x: ((r.left - cloneRect.left) / rendered) * this.zoomLevel + this.panX,
+      y: ((r.top - cloneRect.top) / rendered) * this.zoomLevel + this.panY,
+      width: (r.width / rendered) * this.zoomLevel,
+      height: (r.height / rendered) * this.zoomLevel,
+    };
+    this.setState(revealRect(this.state, this.viewSize(), rect));
+  }
+
+  private renderSearchCount(): void {
+    const query = this.searchInput.value.trim();
+    this.searchCount.textContent = query ? `${this.nodeSearch.position} / ${this.nodeSearch.count}` : "";
+    this.searchInput.toggleClass("is-not-found", !!query && this.nodeSearch.count === 0);
+  }
+
+  private setSelecting(on: boolean): void {
+    this.selecting = on;
+    this.content.toggleClass("is-selecting", on);
+    this.selectButton.toggleClass("is-active", on);
+    this.selectButton.setAttribute("aria-pressed", String(on));
+  }
+}